@@ -1,4 +1,7 @@
-import * as vscode from 'vscode';
+import type { browsers, features, groups } from 'web-features';
+import { BrowserReleases } from './browserslist';
+import { BROWSER_IDS, BrowserId } from './browserSupport';
+import { BaselineScore, calculateScore } from './scoring';
 
 export interface BaselineFeatureInfo {
     id: string;
@@ -23,6 +26,9 @@ export interface BrowserSupportDetails {
     firefox: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
     safari: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
     edge: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
+    chrome_android?: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
+    firefox_android?: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
+    safari_ios?: { version: string; status: 'supported' | 'partial' | 'unsupported'; since?: string };
 }
 
 export interface ModernAlternative {
@@ -37,231 +43,417 @@ export interface ModernAlternative {
     caveats?: string[];
 }
 
+export type BaselineTarget = 'high' | 'low' | 'false';
+
+/**
+ * One detection made by a language analyzer, before matches are grouped into
+ * `AnalysisResult.patterns`. Offsets index the analyzed text.
+ */
+export interface PatternMatch {
+    pattern: string;
+    offset: number;
+    length: number;
+    suggestion: string;
+    // False when the quick fix would change behaviour here, e.g. a var captured by closures in a loop
+    fixable?: boolean;
+}
+
+/** A finding silenced by a `baseline-ignore` comment, with the reason given in the comment. */
+export interface Suppression {
+    pattern: string;
+    line: number;
+    column: number;
+    justification?: string;
+}
+
+/** The points one pattern costs a Baseline score; see `calculateScore` in scoring.ts. */
+export interface ScoreContribution {
+    pattern: string;
+    count: number;
+    // Cost of one usage, e.g. 3 for a feature with limited availability
+    weight: number;
+    reason: string;
+    points: number;
+}
+
 export interface AnalysisResult {
     fileName: string;
     language: string;
+    // Lines in the analyzed text; scores are normalized by file size
+    lineCount: number;
     issuesFound: number;
     patterns: Array<{
         pattern: string;
         count: number;
-        locations: Array<{ line: number; column: number; suggestion: string }>;
+        // `fixable` when a quick fix can rewrite the location; absent in metrics saved before it was tracked
+        locations: Array<{ line: number; column: number; length?: number; suggestion: string; fixable?: boolean }>;
     }>;
+    // Suppressed findings are left out of patterns and issuesFound
+    suppressions: Suppression[];
     recommendations: ModernAlternative[];
     baselineScore: number;
+    scoreBreakdown: ScoreContribution[];
+}
+
+type WebFeaturesData = { browsers: typeof browsers; features: typeof features; groups: typeof groups };
+type WebFeature = WebFeaturesData['features'][string];
+
+// Features that the modern alternatives refer to, or whose compat keys the analyzers
+// report, that the installed web-features release does not describe yet. Dataset
+// entries with the same ID take precedence.
+const SUPPLEMENTAL_FEATURES: BaselineFeatureInfo[] = [
+    {
+        id: 'let-const',
+        name: 'let and const declarations',
+        description: 'Block-scoped variable declarations with let and const keywords',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2016-07-01',
+            support: { chrome: '49', firefox: '36', safari: '10', edge: '12' }
+        },
+        compat_features: ['javascript.statements.let', 'javascript.statements.const'],
+        browserDetails: {
+            chrome: { version: '49', status: 'supported', since: '2016-03' },
+            firefox: { version: '36', status: 'supported', since: '2015-02' },
+            safari: { version: '10', status: 'supported', since: '2016-09' },
+            edge: { version: '12', status: 'supported', since: '2015-07' }
+        }
+    },
+    {
+        id: 'arrow-functions',
+        name: 'Arrow Functions',
+        description: 'Concise function syntax with lexical this binding',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2016-07-01',
+            support: { chrome: '45', firefox: '22', safari: '10', edge: '12' }
+        },
+        compat_features: ['javascript.functions.arrow_functions'],
+        browserDetails: {
+            chrome: { version: '45', status: 'supported', since: '2015-09' },
+            firefox: { version: '22', status: 'supported', since: '2013-06' },
+            safari: { version: '10', status: 'supported', since: '2016-09' },
+            edge: { version: '12', status: 'supported', since: '2015-07' }
+        }
+    },
+    {
+        id: 'semantic-elements',
+        name: 'HTML5 Semantic Elements',
+        description: 'Meaningful HTML elements like header, nav, main, section, article, aside, footer',
+        group: 'html-elements',
+        category: 'HTML',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2014-01-01',
+            support: { chrome: '5', firefox: '4', safari: '4.1', edge: '12' }
+        },
+        compat_features: ['html.elements.header', 'html.elements.nav', 'html.elements.main'],
+        browserDetails: {
+            chrome: { version: '5', status: 'supported', since: '2010-05' },
+            firefox: { version: '4', status: 'supported', since: '2011-03' },
+            safari: { version: '4.1', status: 'supported', since: '2010-06' },
+            edge: { version: '12', status: 'supported', since: '2015-07' }
+        }
+    },
+    {
+        id: 'object-spread',
+        name: 'Object Spread Syntax',
+        description: 'Spread properties in object literals for easy object composition',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2022-07-15',
+            baseline_low_date: '2020-01-15',
+            support: { chrome: '60', firefox: '55', safari: '11.1', edge: '79' }
+        },
+        compat_features: ['javascript.operators.spread.spread_in_object_literals'],
+        browserDetails: {
+            chrome: { version: '60', status: 'supported', since: '2017-07' },
+            firefox: { version: '55', status: 'supported', since: '2017-08' },
+            safari: { version: '11.1', status: 'supported', since: '2018-03' },
+            edge: { version: '79', status: 'supported', since: '2020-01' }
+        }
+    },
+    {
+        id: 'optional-chaining',
+        name: 'Optional chaining (?.)',
+        description: 'Accesses properties and calls methods that may be null or undefined without throwing',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2022-09-24',
+            baseline_low_date: '2020-03-24',
+            support: {
+                chrome: '80',
+                chrome_android: '80',
+                edge: '80',
+                firefox: '74',
+                firefox_android: '79',
+                safari: '13.1',
+                safari_ios: '13.4'
+            }
+        },
+        compat_features: ['javascript.operators.optional_chaining'],
+        browserDetails: {
+            chrome: { version: '80', status: 'supported', since: '2020-02' },
+            firefox: { version: '74', status: 'supported', since: '2020-03' },
+            safari: { version: '13.1', status: 'supported', since: '2020-03' },
+            edge: { version: '80', status: 'supported', since: '2020-02' }
+        }
+    },
+    {
+        id: 'spread',
+        name: 'Spread syntax',
+        description: 'Expands iterables into array literals and function call arguments with ...',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2018-04-13',
+            baseline_low_date: '2015-10-13',
+            support: {
+                chrome: '46',
+                chrome_android: '46',
+                edge: '12',
+                firefox: '27',
+                firefox_android: '27',
+                safari: '8',
+                safari_ios: '8'
+            }
+        },
+        compat_features: [
+            'javascript.operators.spread.spread_in_arrays',
+            'javascript.operators.spread.spread_in_function_calls'
+        ],
+        browserDetails: {
+            chrome: { version: '46', status: 'supported', since: '2015-10' },
+            firefox: { version: '27', status: 'supported', since: '2014-02' },
+            safari: { version: '8', status: 'supported', since: '2014-10' },
+            edge: { version: '12', status: 'supported', since: '2015-07' }
+        }
+    },
+    {
+        id: 'class-fields',
+        name: 'Class fields',
+        description: 'Public, private (#) and static fields declared directly in the class body',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2024-01-13',
+            baseline_low_date: '2021-07-13',
+            support: {
+                chrome: '74',
+                chrome_android: '74',
+                edge: '79',
+                firefox: '90',
+                firefox_android: '90',
+                safari: '14.1',
+                safari_ios: '14.5'
+            }
+        },
+        compat_features: [
+            'javascript.classes.public_class_fields',
+            'javascript.classes.private_class_fields',
+            'javascript.classes.static_class_fields'
+        ],
+        browserDetails: {
+            chrome: { version: '74', status: 'supported', since: '2019-04' },
+            firefox: { version: '90', status: 'supported', since: '2021-07' },
+            safari: { version: '14.1', status: 'supported', since: '2021-04' },
+            edge: { version: '79', status: 'supported', since: '2020-01' }
+        }
+    },
+    {
+        id: 'top-level-await',
+        name: 'Top-level await',
+        description: 'Uses await at the top level of a module, outside any async function',
+        group: 'javascript-syntax',
+        category: 'JavaScript',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2024-03-20',
+            baseline_low_date: '2021-09-20',
+            support: {
+                chrome: '89',
+                chrome_android: '89',
+                edge: '89',
+                firefox: '89',
+                firefox_android: '89',
+                safari: '15',
+                safari_ios: '15'
+            }
+        },
+        compat_features: ['javascript.operators.await.top_level'],
+        browserDetails: {
+            chrome: { version: '89', status: 'supported', since: '2021-03' },
+            firefox: { version: '89', status: 'supported', since: '2021-06' },
+            safari: { version: '15', status: 'supported', since: '2021-09' },
+            edge: { version: '89', status: 'supported', since: '2021-03' }
+        }
+    },
+    {
+        id: 'flow-root',
+        name: 'display: flow-root',
+        description: 'Creates a new block formatting context so an element contains its floats without clearfix hacks',
+        group: 'display',
+        category: 'CSS',
+        status: {
+            baseline: 'high',
+            baseline_high_date: '2022-07-15',
+            baseline_low_date: '2020-01-15',
+            support: {
+                chrome: '58',
+                chrome_android: '58',
+                edge: '79',
+                firefox: '53',
+                firefox_android: '53',
+                safari: '13',
+                safari_ios: '13'
+            }
+        },
+        compat_features: ['css.properties.display.flow-root'],
+        browserDetails: {
+            chrome: { version: '58', status: 'supported', since: '2017-04' },
+            firefox: { version: '53', status: 'supported', since: '2017-04' },
+            safari: { version: '13', status: 'supported', since: '2019-09' },
+            edge: { version: '79', status: 'supported', since: '2020-01' }
+        }
+    }
+];
+
+// The web feature that code matching a legacy pattern actually relies on
+const LEGACY_PATTERN_FEATURES: Record<string, string | undefined> = {
+    'XMLHttpRequest': 'xhr',
+    'function': 'functions',
+    '<div>': 'div',
+    '<b><i><u>': 'b'
+};
+
+function firstOf<T>(value: T | T[] | undefined): T | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * How `describeStatus` words a status:
+ * - `sentence` follows "is": "Baseline newly available since 2024-03-19" or "not Baseline yet"
+ * - `label` names it: "newly available since 2024-03-19" or "limited availability"
+ * - `short` is the label without its date, e.g. "newly available"
+ */
+export type StatusFormat = 'sentence' | 'label' | 'short';
+
+/** Describes a feature's Baseline status, with the date it was reached unless `format` is `short`. */
+export function describeStatus(feature: BaselineFeatureInfo, format: StatusFormat = 'sentence'): string {
+    const { baseline, baseline_low_date: lowDate, baseline_high_date: highDate } = feature.status;
+    if (baseline !== 'high' && baseline !== 'low') return format === 'sentence' ? 'not Baseline yet' : 'limited availability';
+
+    const date = format === 'short' ? undefined : baseline === 'high' ? highDate : lowDate;
+    const label = `${baseline === 'high' ? 'widely' : 'newly'} available${date ? ` since ${date}` : ''}`;
+    return format === 'sentence' ? `Baseline ${label}` : label;
 }
 
 export class BaselineService {
     private featuresMap: Map<string, BaselineFeatureInfo>;
     private modernAlternatives: Map<string, ModernAlternative[]>;
-    private sampleFeatures: BaselineFeatureInfo[];
+    private features: BaselineFeatureInfo[];
+    private browserReleases?: WebFeaturesData['browsers'];
+    private groupNames: Map<string, string>;
+    private compatFeatureIds: Map<string, string>;
 
     constructor() {
         this.featuresMap = new Map();
+        this.compatFeatureIds = new Map();
+        this.groupNames = new Map();
         this.modernAlternatives = new Map();
-        this.sampleFeatures = [];
+        this.features = [];
         this.initializeFeatures();
         this.initializeModernAlternatives();
     }
 
     private initializeFeatures() {
-        // Initialize with comprehensive sample features representing real Baseline data
-        this.sampleFeatures = [
-            {
-                id: 'flexbox',
-                name: 'CSS Flexbox',
-                description: 'A layout method for arranging items in rows or columns with flexible sizing',
-                group: 'css-layout',
-                category: 'CSS',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2017-03-01',
-                    support: { chrome: '29', firefox: '28', safari: '9', edge: '12' }
-                },
-                compat_features: ['css.properties.display.flex', 'css.properties.flex-direction'],
-                browserDetails: {
-                    chrome: { version: '29', status: 'supported', since: '2013-08' },
-                    firefox: { version: '28', status: 'supported', since: '2014-03' },
-                    safari: { version: '9', status: 'supported', since: '2015-09' },
-                    edge: { version: '12', status: 'supported', since: '2015-07' }
-                }
-            },
-            {
-                id: 'fetch',
-                name: 'Fetch API',
-                description: 'Modern promise-based API for making HTTP requests',
-                group: 'web-api',
-                category: 'JavaScript',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2017-04-01',
-                    support: { chrome: '42', firefox: '39', safari: '10.1', edge: '14' }
-                },
-                compat_features: ['api.fetch', 'api.Request', 'api.Response'],
-                browserDetails: {
-                    chrome: { version: '42', status: 'supported', since: '2015-04' },
-                    firefox: { version: '39', status: 'supported', since: '2015-06' },
-                    safari: { version: '10.1', status: 'supported', since: '2017-03' },
-                    edge: { version: '14', status: 'supported', since: '2016-08' }
-                }
-            },
-            {
-                id: 'let-const',
-                name: 'let and const declarations',
-                description: 'Block-scoped variable declarations with let and const keywords',
-                group: 'javascript-syntax',
-                category: 'JavaScript',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2016-07-01',
-                    support: { chrome: '49', firefox: '36', safari: '10', edge: '12' }
-                },
-                compat_features: ['javascript.statements.let', 'javascript.statements.const'],
-                browserDetails: {
-                    chrome: { version: '49', status: 'supported', since: '2016-03' },
-                    firefox: { version: '36', status: 'supported', since: '2015-02' },
-                    safari: { version: '10', status: 'supported', since: '2016-09' },
-                    edge: { version: '12', status: 'supported', since: '2015-07' }
-                }
-            },
-            {
-                id: 'grid',
-                name: 'CSS Grid Layout',
-                description: 'Two-dimensional layout system for complex grid-based designs',
-                group: 'css-layout',
-                category: 'CSS',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2020-01-01',
-                    support: { chrome: '57', firefox: '52', safari: '10.1', edge: '16' }
-                },
-                compat_features: ['css.properties.display.grid', 'css.properties.grid-template-columns'],
-                browserDetails: {
-                    chrome: { version: '57', status: 'supported', since: '2017-03' },
-                    firefox: { version: '52', status: 'supported', since: '2017-03' },
-                    safari: { version: '10.1', status: 'supported', since: '2017-03' },
-                    edge: { version: '16', status: 'supported', since: '2017-10' }
-                }
-            },
-            {
-                id: 'arrow-functions',
-                name: 'Arrow Functions',
-                description: 'Concise function syntax with lexical this binding',
-                group: 'javascript-syntax',
-                category: 'JavaScript',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2016-07-01',
-                    support: { chrome: '45', firefox: '22', safari: '10', edge: '12' }
-                },
-                compat_features: ['javascript.functions.arrow_functions'],
-                browserDetails: {
-                    chrome: { version: '45', status: 'supported', since: '2015-09' },
-                    firefox: { version: '22', status: 'supported', since: '2013-06' },
-                    safari: { version: '10', status: 'supported', since: '2016-09' },
-                    edge: { version: '12', status: 'supported', since: '2015-07' }
-                }
-            },
-            {
-                id: 'semantic-elements',
-                name: 'HTML5 Semantic Elements',
-                description: 'Meaningful HTML elements like header, nav, main, section, article, aside, footer',
-                group: 'html-elements',
-                category: 'HTML',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2014-01-01',
-                    support: { chrome: '5', firefox: '4', safari: '4.1', edge: '12' }
-                },
-                compat_features: ['html.elements.header', 'html.elements.nav', 'html.elements.main'],
-                browserDetails: {
-                    chrome: { version: '5', status: 'supported', since: '2010-05' },
-                    firefox: { version: '4', status: 'supported', since: '2011-03' },
-                    safari: { version: '4.1', status: 'supported', since: '2010-06' },
-                    edge: { version: '12', status: 'supported', since: '2015-07' }
-                }
-            },
-            {
-                id: 'custom-properties',
-                name: 'CSS Custom Properties (Variables)',
-                description: 'CSS variables for creating reusable values throughout stylesheets',
-                group: 'css-syntax',
-                category: 'CSS',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2018-04-01',
-                    support: { chrome: '49', firefox: '31', safari: '9.1', edge: '16' }
-                },
-                compat_features: ['css.properties.custom-property'],
-                browserDetails: {
-                    chrome: { version: '49', status: 'supported', since: '2016-03' },
-                    firefox: { version: '31', status: 'supported', since: '2014-07' },
-                    safari: { version: '9.1', status: 'supported', since: '2016-03' },
-                    edge: { version: '16', status: 'supported', since: '2017-10' }
-                }
-            },
-            {
-                id: 'template-literals',
-                name: 'Template Literals',
-                description: 'Enhanced string literals with embedded expressions using backticks',
-                group: 'javascript-syntax',
-                category: 'JavaScript',
-                status: {
-                    baseline: 'high',
-                    baseline_high_date: '2016-07-01',
-                    support: { chrome: '41', firefox: '34', safari: '9', edge: '12' }
-                },
-                compat_features: ['javascript.grammar.template_literals'],
-                browserDetails: {
-                    chrome: { version: '41', status: 'supported', since: '2015-03' },
-                    firefox: { version: '34', status: 'supported', since: '2014-12' },
-                    safari: { version: '9', status: 'supported', since: '2015-09' },
-                    edge: { version: '12', status: 'supported', since: '2015-07' }
-                }
-            },
-            {
-                id: 'object-spread',
-                name: 'Object Spread Syntax',
-                description: 'Spread properties in object literals for easy object composition',
-                group: 'javascript-syntax',
-                category: 'JavaScript',
-                status: {
-                    baseline: 'low',
-                    baseline_low_date: '2024-03-01',
-                    support: { chrome: '60', firefox: '55', safari: '11.1', edge: '79' }
-                },
-                compat_features: ['javascript.operators.spread.spread_in_object_literals'],
-                browserDetails: {
-                    chrome: { version: '60', status: 'supported', since: '2017-07' },
-                    firefox: { version: '55', status: 'supported', since: '2017-08' },
-                    safari: { version: '11.1', status: 'supported', since: '2018-03' },
-                    edge: { version: '79', status: 'supported', since: '2020-01' }
-                }
+        const data: WebFeaturesData = require('web-features/data.json');
+        this.browserReleases = data.browsers;
+        Object.entries(data.groups).forEach(([id, group]) => this.groupNames.set(id, group.name));
+
+        Object.entries(data.features).forEach(([id, feature]) => {
+            this.featuresMap.set(id, this.toFeatureInfo(id, feature));
+        });
+
+        SUPPLEMENTAL_FEATURES.forEach(feature => {
+            if (!this.featuresMap.has(feature.id)) {
+                this.featuresMap.set(feature.id, feature);
+            }
+        });
+
+        this.features = Array.from(this.featuresMap.values());
+        this.features.forEach(feature => {
+            feature.compat_features.forEach(key => this.compatFeatureIds.set(key, feature.id));
+        });
+    }
+
+    private toFeatureInfo(id: string, feature: WebFeature): BaselineFeatureInfo {
+        const compatFeatures = feature.compat_features || [];
+
+        return {
+            id,
+            name: feature.name,
+            description: feature.description,
+            group: firstOf(feature.group) || 'other',
+            category: this.categorize(compatFeatures),
+            status: {
+                baseline: feature.status.baseline,
+                baseline_high_date: feature.status.baseline_high_date,
+                baseline_low_date: feature.status.baseline_low_date,
+                support: { ...feature.status.support }
             },
-            {
-                id: 'container-queries',
-                name: 'CSS Container Queries',
-                description: 'Style elements based on the size of their containing element',
-                group: 'css-layout',
-                category: 'CSS',
-                status: {
-                    baseline: 'low',
-                    baseline_low_date: '2024-02-01',
-                    support: { chrome: '105', firefox: '110', safari: '16', edge: '105' }
-                },
-                compat_features: ['css.at-rules.container', 'css.properties.container-type'],
-                browserDetails: {
-                    chrome: { version: '105', status: 'supported', since: '2022-08' },
-                    firefox: { version: '110', status: 'supported', since: '2023-02' },
-                    safari: { version: '16', status: 'supported', since: '2022-09' },
-                    edge: { version: '105', status: 'supported', since: '2022-08' }
-                }
+            spec: firstOf(feature.spec),
+            caniuse: firstOf(feature.caniuse),
+            compat_features: compatFeatures,
+            browserDetails: {
+                chrome: this.toBrowserDetail('chrome', feature.status.support.chrome),
+                firefox: this.toBrowserDetail('firefox', feature.status.support.firefox),
+                safari: this.toBrowserDetail('safari', feature.status.support.safari),
+                edge: this.toBrowserDetail('edge', feature.status.support.edge),
+                chrome_android: this.toBrowserDetail('chrome_android', feature.status.support.chrome_android),
+                firefox_android: this.toBrowserDetail('firefox_android', feature.status.support.firefox_android),
+                safari_ios: this.toBrowserDetail('safari_ios', feature.status.support.safari_ios)
             }
-        ];
+        };
+    }
 
-        // Populate features map
-        this.sampleFeatures.forEach(feature => {
-            this.featuresMap.set(feature.id, feature);
+    private toBrowserDetail(browser: BrowserId, version: string | undefined): BrowserSupportDetails['chrome'] {
+        if (!version) {
+            return { version: '', status: 'unsupported' };
+        }
+
+        // Ranged versions such as "≤79" mean support predates the earliest tracked release
+        const exactVersion = version.replace(/^≤/, '');
+        const release = this.browserReleases?.[browser].releases.find(r => r.version === exactVersion);
+
+        return {
+            version,
+            status: 'supported',
+            since: release?.date.slice(0, 7)
+        };
+    }
+
+    /** Buckets a feature into the dashboard's JavaScript/CSS/HTML categories by its compat keys. */
+    private categorize(compatFeatures: string[]): string {
+        const counts: Record<string, number> = { JavaScript: 0, CSS: 0, HTML: 0 };
+
+        compatFeatures.forEach(key => {
+            if (key.startsWith('css.')) counts.CSS++;
+            else if (key.startsWith('html.') || key.startsWith('svg.') || key.startsWith('mathml.')) counts.HTML++;
+            else counts.JavaScript++;
         });
+
+        return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
     }
 
     private initializeModernAlternatives() {
@@ -360,19 +552,81 @@ export class BaselineService {
                 caveats: ['Default styling may differ', 'CSS updates needed']
             }
         ]);
+
+        this.modernAlternatives.set('presentational-html', [
+            {
+                feature: 'presentational-css',
+                replacement: 'CSS Styling',
+                description: 'Styles the element with CSS instead of obsolete presentational elements and attributes',
+                example: '<p class="centered">…</p> with .centered { text-align: center; background-color: #eee; }',
+                baselineStatus: 'high',
+                browserSupport: {},
+                migrationGuide: 'Move the presentation into a stylesheet and keep the markup for structure and meaning',
+                benefits: ['Valid, conforming HTML', 'Styles reusable across pages', 'Easier theming'],
+                caveats: ['Attributes like align behave differently per element; check the rendered layout']
+            }
+        ]);
+        this.modernAlternatives.set('clearfix', [
+            {
+                feature: 'flow-root',
+                replacement: 'display: flow-root',
+                description: 'Contain floats by giving the parent its own block formatting context instead of a pseudo-element hack',
+                example: '.media { display: flow-root; }',
+                baselineStatus: 'high',
+                browserSupport: { chrome: '58', firefox: '53', safari: '13', edge: '79' },
+                migrationGuide: 'Remove the ::after clearfix rule and set display: flow-root on the container, or switch the layout to flexbox',
+                benefits: ['No extra pseudo-elements', 'Intent is explicit', 'Also prevents margin collapsing'],
+                caveats: ['Changes the display of the container', 'Not needed at all once floats are replaced by flexbox or grid']
+            }
+        ]);
+
+        this.modernAlternatives.set('vendor-prefix', [
+            {
+                feature: 'unprefixed-css',
+                replacement: 'Unprefixed CSS',
+                description: 'Standard property, value and at-rule names that every Baseline browser understands',
+                example: '.card { transition: transform 0.2s; transform: translateY(-2px); }',
+                baselineStatus: 'high',
+                browserSupport: {},
+                migrationGuide: 'Delete the prefixed declaration when the unprefixed one is present, otherwise rename it',
+                benefits: ['Smaller stylesheets', 'One declaration to maintain', 'Standard behavior'],
+                caveats: ['Check that the prefixed variant did not rely on legacy syntax, such as -webkit-box flex properties']
+            }
+        ]);
     }
 
     getAllFeatures(): BaselineFeatureInfo[] {
-        return [...this.sampleFeatures];
+        return [...this.features];
+    }
+
+    /** Resolves a browser-compat-data key such as `css.at-rules.container` to the feature it belongs to. */
+    getFeatureByCompatKey(compatKey: string): BaselineFeatureInfo | undefined {
+        const featureId = this.compatFeatureIds.get(compatKey);
+        return featureId ? this.featuresMap.get(featureId) : undefined;
+    }
+
+    /** The display name of a web-features group such as `arrays` → "Arrays"; unknown groups keep their ID. */
+    getGroupName(groupId: string): string {
+        return this.groupNames.get(groupId) || groupId;
+    }
+
+    getCompatKeys(prefix: string = ''): string[] {
+        return Array.from(this.compatFeatureIds.keys()).filter(key => key.startsWith(prefix));
     }
 
     getBaselineFeatures(status: 'high' | 'low' | false): BaselineFeatureInfo[] {
-        return this.sampleFeatures.filter(feature => feature.status.baseline === status);
+        return this.features.filter(feature => feature.status.baseline === status);
     }
 
     getFeatureInfo(featureId: string): BaselineFeatureInfo | undefined {
-        return this.featuresMap.get(featureId) || 
-               this.sampleFeatures.find(f => f.name.toLowerCase().includes(featureId.toLowerCase()));
+        const exactMatch = this.featuresMap.get(featureId);
+        if (exactMatch) return exactMatch;
+
+        // Legacy pattern names such as "var" resolve to the feature that replaces them
+        const lowerId = featureId.toLowerCase();
+        const alternative = this.modernAlternatives.get(featureId)?.[0];
+        return this.features.find(f => f.name.toLowerCase() === lowerId) ||
+               (alternative ? this.featuresMap.get(alternative.feature) : undefined);
     }
 
     getBrowserSupport(featureId: string): Record<string, string | boolean | undefined> {
@@ -395,9 +649,22 @@ export class BaselineService {
         return partialMatches;
     }
 
+    getAllModernAlternatives(): ModernAlternative[] {
+        return Array.from(this.modernAlternatives.values()).flat();
+    }
+
+    /** The alternatives that recommend `featureId`, e.g. the XMLHttpRequest → fetch migration for `fetch`. */
+    getAlternativesUsing(featureId: string): ModernAlternative[] {
+        return this.getAllModernAlternatives().filter(alternative => alternative.feature === featureId);
+    }
+
+    isLegacyPattern(pattern: string): boolean {
+        return this.modernAlternatives.has(pattern);
+    }
+
     searchFeatures(query: string): BaselineFeatureInfo[] {
         const lowerQuery = query.toLowerCase();
-        return this.sampleFeatures.filter(feature =>
+        return this.features.filter(feature =>
             feature.name.toLowerCase().includes(lowerQuery) ||
             feature.description.toLowerCase().includes(lowerQuery) ||
             feature.id.toLowerCase().includes(lowerQuery) ||
@@ -405,22 +672,84 @@ export class BaselineService {
         );
     }
 
-    calculateBaselineScore(analysisResult: AnalysisResult): number {
-        const totalPatterns = analysisResult.patterns.reduce((sum, pattern) => sum + pattern.count, 0);
-        if (totalPatterns === 0) return 100;
+    /** Scores a file from its reported patterns, weighted by status, recency and severity and normalized by its size. */
+    calculateBaselineScore(analysisResult: Pick<AnalysisResult, 'patterns' | 'lineCount'>): BaselineScore {
+        return calculateScore(analysisResult.patterns, analysisResult.lineCount, this);
+    }
 
-        const modernPatterns = analysisResult.recommendations.filter(rec => rec.baselineStatus === 'high');
-        const modernCount = modernPatterns.length;
+    /**
+     * Whether a Baseline status satisfies the configured `targetBaseline`:
+     * "high" only accepts widely available features, "low" also accepts newly
+     * available ones, and "false" accepts everything.
+     */
+    meetsTarget(status: 'high' | 'low' | false | undefined, target: BaselineTarget): boolean {
+        switch (target) {
+            case 'high':
+                return status === 'high';
+            case 'low':
+                return status === 'high' || status === 'low';
+            default:
+                return true;
+        }
+    }
 
-        return Math.round(Math.max(0, 100 - (totalPatterns - modernCount) * 10));
+    /** Whether a reported pattern is a used web feature that falls short of `target`; legacy patterns never are. */
+    isBelowTarget(pattern: string, target: BaselineTarget): boolean {
+        if (this.isLegacyPattern(pattern)) return false;
+        const feature = this.featuresMap.get(pattern);
+        return feature !== undefined && !this.meetsTarget(feature.status.baseline, target);
+    }
+
+    getFeatureUrl(feature: BaselineFeatureInfo): string {
+        if (feature.caniuse) return `https://caniuse.com/${feature.caniuse}`;
+        if (feature.spec) return feature.spec;
+        return `https://web-platform-dx.github.io/web-features-explorer/features/${feature.id}/`;
+    }
+
+    /** Maps the legacy pattern or feature keys recorded by MetricsTracker to the features they use. */
+    resolveUsedFeatures(usageKeys: string[]): BaselineFeatureInfo[] {
+        const used = new Map<string, BaselineFeatureInfo>();
+
+        usageKeys.forEach(key => {
+            const featureId = this.isLegacyPattern(key) ? LEGACY_PATTERN_FEATURES[key] : key;
+            const feature = featureId ? this.featuresMap.get(featureId) : undefined;
+            if (feature) used.set(feature.id, feature);
+        });
+
+        return Array.from(used.values());
+    }
+
+    getBrowserReleases(): BrowserReleases {
+        const releases = {} as BrowserReleases;
+        BROWSER_IDS.forEach(browser => {
+            releases[browser] = this.browserReleases?.[browser].releases || [];
+        });
+        return releases;
+    }
+
+    getLatestVersion(browser: BrowserId): string {
+        const releases = this.browserReleases?.[browser].releases || [];
+        return releases.length > 0 ? releases[releases.length - 1].version : '';
+    }
+
+    /** Fills in the latest known release for every browser without a configured minimum version. */
+    resolveMinimumVersions(configured: Partial<Record<BrowserId, string>>): Record<BrowserId, string> {
+        const resolved = {} as Record<BrowserId, string>;
+        BROWSER_IDS.forEach(browser => {
+            resolved[browser] = configured[browser] || this.getLatestVersion(browser);
+        });
+        return resolved;
     }
 
     getBrowsers() {
         return {
             chrome: { name: 'Chrome', icon: '🌐' },
+            chrome_android: { name: 'Chrome Android', icon: '🤖' },
+            edge: { name: 'Edge', icon: '🔷' },
             firefox: { name: 'Firefox', icon: '🦊' },
+            firefox_android: { name: 'Firefox Android', icon: '📱' },
             safari: { name: 'Safari', icon: '🧭' },
-            edge: { name: 'Edge', icon: '🔷' }
+            safari_ios: { name: 'Safari iOS', icon: '🍎' }
         };
     }
 }
@@ -0,0 +1,58 @@
+import { BaselineFeatureInfo } from './baselineService';
+
+export const BROWSER_IDS = ['chrome', 'chrome_android', 'edge', 'firefox', 'firefox_android', 'safari', 'safari_ios'] as const;
+
+export type BrowserId = typeof BROWSER_IDS[number];
+
+export interface BrowserSupportStat {
+    supported: number;
+    total: number;
+    percentage: number;
+    minimumVersion: string;
+}
+
+export type BrowserSupportStats = Record<BrowserId, BrowserSupportStat>;
+
+/** Compares dotted version strings numerically; ranged values like "≤79" compare as 79. */
+export function compareVersions(a: string, b: string): number {
+    const left = a.replace(/^≤/, '').split('.').map(Number);
+    const right = b.replace(/^≤/, '').split('.').map(Number);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] || 0) - (right[i] || 0);
+        if (difference !== 0) return difference;
+    }
+
+    return 0;
+}
+
+/**
+ * A feature works in every version from `minimumVersion` onwards when the release
+ * that introduced it is not newer than `minimumVersion`.
+ */
+export function isSupportedSince(supportVersion: string | boolean | undefined, minimumVersion: string): boolean {
+    if (supportVersion === true) return true;
+    if (!supportVersion) return false;
+    return compareVersions(supportVersion, minimumVersion) <= 0;
+}
+
+export function computeBrowserSupportStats(
+    features: BaselineFeatureInfo[],
+    minimumVersions: Record<BrowserId, string>
+): BrowserSupportStats {
+    const stats = {} as BrowserSupportStats;
+
+    BROWSER_IDS.forEach(browser => {
+        const minimumVersion = minimumVersions[browser];
+        const supported = features.filter(feature => isSupportedSince(feature.status.support[browser], minimumVersion)).length;
+
+        stats[browser] = {
+            supported,
+            total: features.length,
+            percentage: features.length > 0 ? Math.round((supported / features.length) * 100) : 0,
+            minimumVersion
+        };
+    });
+
+    return stats;
+}
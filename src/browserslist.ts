@@ -0,0 +1,225 @@
+import { BaselineFeatureInfo } from './baselineService';
+import { BROWSER_IDS, BrowserId, compareVersions, isSupportedSince } from './browserSupport';
+
+export interface BrowserRelease {
+    version: string;
+    date: string;
+}
+
+export type BrowserReleases = Record<BrowserId, BrowserRelease[]>;
+
+export interface ResolvedTarget {
+    source: string;
+    queries: string[];
+    // Oldest selected version per browser; browsers that are not targeted are absent
+    versions: Partial<Record<BrowserId, string>>;
+    // Queries that cannot be resolved offline, such as usage-based ones
+    ignored: string[];
+}
+
+const BROWSER_ALIASES: Record<string, BrowserId> = {
+    chrome: 'chrome',
+    and_chr: 'chrome_android',
+    chromeandroid: 'chrome_android',
+    edge: 'edge',
+    firefox: 'firefox',
+    ff: 'firefox',
+    and_ff: 'firefox_android',
+    firefoxandroid: 'firefox_android',
+    safari: 'safari',
+    ios_saf: 'safari_ios',
+    ios: 'safari_ios',
+    iossafari: 'safari_ios'
+};
+
+// browserslist keeps its own list of Extended Support Releases; these are the ones in our release data
+const FIREFOX_ESR_VERSIONS = ['115', '128'];
+
+const DEFAULT_QUERIES = ['last 2 versions', 'firefox esr', 'not dead'];
+
+/**
+ * Reads a .browserslistrc file. Queries outside any `[env]` section win; otherwise the
+ * `[production]` section is used, mirroring browserslist's default environment.
+ */
+export function parseBrowserslistrc(content: string): string[] {
+    const sections: Record<string, string[]> = { '': [] };
+    let current = '';
+
+    content.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        if (!line) return;
+
+        const section = /^\[\s*(.+?)\s*\]$/.exec(line);
+        if (section) {
+            current = section[1];
+            sections[current] = sections[current] || [];
+            return;
+        }
+
+        sections[current] = sections[current] || [];
+        sections[current].push(line);
+    });
+
+    return sections[''].length > 0 ? sections[''] : sections['production'] || [];
+}
+
+/** Extracts the `browserslist` field of a package.json, which may be a string, an array or per-environment. */
+export function parseBrowserslistPackageField(field: unknown): string[] {
+    if (typeof field === 'string') return [field];
+    if (Array.isArray(field)) return field.filter((query): query is string => typeof query === 'string');
+    if (field && typeof field === 'object') {
+        const environments = field as Record<string, unknown>;
+        return parseBrowserslistPackageField(environments.production ?? environments.defaults);
+    }
+    return [];
+}
+
+/**
+ * Resolves a subset of the browserslist query language against the bundled
+ * release history: `defaults`, `last N [major] versions`, `last N <browser> versions`,
+ * `last N years`, `since <date>`, version comparisons and ranges, `firefox esr`,
+ * combined with `,`, `or`, `and` and `not`.
+ */
+export function resolveBrowserslist(queries: string[], releases: BrowserReleases, source: string, now: Date = new Date()): ResolvedTarget {
+    const ignored: string[] = [];
+    let selection = new Set<string>();
+
+    const terms = queries
+        .flatMap(query => query.split(/,|\s+or\s+/i))
+        .map(term => term.trim())
+        .filter(Boolean);
+
+    terms.forEach(term => {
+        const negate = /^not\s+/i.test(term);
+        const parts = term.replace(/^not\s+/i, '').split(/\s+and\s+/i);
+        let matched: Set<string> | undefined;
+
+        for (const part of parts) {
+            const selected = selectQuery(part.toLowerCase(), releases, now);
+            if (!selected) {
+                ignored.push(term);
+                return;
+            }
+            matched = matched ? new Set(Array.from(matched).filter(entry => selected.has(entry))) : selected;
+        }
+
+        if (!matched) return;
+        if (negate) {
+            matched.forEach(entry => selection.delete(entry));
+        } else {
+            selection = new Set([...selection, ...matched]);
+        }
+    });
+
+    const versions: Partial<Record<BrowserId, string>> = {};
+    selection.forEach(entry => {
+        const [browser, version] = entry.split(' ') as [BrowserId, string];
+        if (!versions[browser] || compareVersions(version, versions[browser]!) < 0) {
+            versions[browser] = version;
+        }
+    });
+
+    return { source, queries, versions, ignored };
+}
+
+function selectQuery(query: string, releases: BrowserReleases, now: Date): Set<string> | undefined {
+    const select = (browser: BrowserId, filter: (release: BrowserRelease, index: number, all: BrowserRelease[]) => boolean) =>
+        releases[browser].filter(filter).map(release => `${browser} ${release.version}`);
+    const everyBrowser = (filter: (release: BrowserRelease, index: number, all: BrowserRelease[]) => boolean) =>
+        new Set(BROWSER_IDS.flatMap(browser => select(browser, filter)));
+
+    let match: RegExpExecArray | null;
+
+    if (query === 'defaults') {
+        return DEFAULT_QUERIES.reduce((all, part) => {
+            selectQuery(part, releases, now)?.forEach(entry => all.add(entry));
+            return all;
+        }, new Set<string>());
+    }
+
+    if (query === 'dead' || query === 'unreleased versions') {
+        // None of the browsers in the release data are dead, and it only lists shipped versions
+        return new Set();
+    }
+
+    if (query === 'firefox esr' || query === 'ff esr') {
+        return new Set(select('firefox', release => FIREFOX_ESR_VERSIONS.includes(release.version)));
+    }
+
+    if ((match = /^last\s+(\d+)\s+(major\s+)?versions?$/.exec(query))) {
+        const count = Number(match[1]);
+        const major = Boolean(match[2]);
+        return everyBrowser((release, index, all) => isWithinLast(release, index, all, count, major));
+    }
+
+    if ((match = /^last\s+(\d+)\s+(\w+)\s+(major\s+)?versions?$/.exec(query))) {
+        const browser = BROWSER_ALIASES[match[2]];
+        if (!browser) return undefined;
+        const count = Number(match[1]);
+        const major = Boolean(match[3]);
+        return new Set(select(browser, (release, index, all) => isWithinLast(release, index, all, count, major)));
+    }
+
+    if ((match = /^last\s+(\d*\.?\d+)\s+years?$/.exec(query))) {
+        const since = new Date(now.getTime() - Number(match[1]) * 365.25 * 24 * 60 * 60 * 1000);
+        return everyBrowser(release => new Date(release.date) >= since);
+    }
+
+    if ((match = /^since\s+(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/.exec(query))) {
+        const since = new Date(Date.UTC(Number(match[1]), Number(match[2] || 1) - 1, Number(match[3] || 1)));
+        return everyBrowser(release => new Date(release.date) >= since);
+    }
+
+    if ((match = /^(\w+)\s*(>=|<=|>|<)\s*([\d.]+)$/.exec(query))) {
+        const browser = BROWSER_ALIASES[match[1]];
+        if (!browser) return undefined;
+        const operator = match[2];
+        const version = match[3];
+        return new Set(select(browser, release => {
+            const difference = compareVersions(release.version, version);
+            return operator === '>=' ? difference >= 0
+                : operator === '>' ? difference > 0
+                : operator === '<=' ? difference <= 0
+                : difference < 0;
+        }));
+    }
+
+    if ((match = /^(\w+)\s+([\d.]+)\s*-\s*([\d.]+)$/.exec(query))) {
+        const browser = BROWSER_ALIASES[match[1]];
+        if (!browser) return undefined;
+        const [from, to] = [match[2], match[3]];
+        return new Set(select(browser, release =>
+            compareVersions(release.version, from) >= 0 && compareVersions(release.version, to) <= 0));
+    }
+
+    if ((match = /^(\w+)\s+([\d.]+)$/.exec(query))) {
+        const browser = BROWSER_ALIASES[match[1]];
+        if (!browser) return undefined;
+        const version = match[2];
+        return new Set(select(browser, release => compareVersions(release.version, version) === 0));
+    }
+
+    return undefined;
+}
+
+function isWithinLast(release: BrowserRelease, index: number, all: BrowserRelease[], count: number, major: boolean): boolean {
+    if (!major) return index >= all.length - count;
+
+    const majors = Array.from(new Set(all.map(r => r.version.split('.')[0])));
+    return majors.slice(-count).includes(release.version.split('.')[0]);
+}
+
+/** Lists the targeted browsers (as "safari 15.4") whose oldest selected version lacks the feature. */
+export function getUnsupportedBrowsers(feature: BaselineFeatureInfo, target: ResolvedTarget): string[] {
+    return (Object.entries(target.versions) as Array<[BrowserId, string]>)
+        .filter(([browser, version]) => !isSupportedSince(feature.status.support[browser], version))
+        .map(([browser, version]) => `${browser} ${version}`);
+}
+
+export function describeTarget(target: ResolvedTarget, browserNames: Record<BrowserId, { name: string }>): string {
+    const browsers = BROWSER_IDS
+        .filter(browser => target.versions[browser])
+        .map(browser => `${browserNames[browser].name} ${target.versions[browser]}+`);
+
+    return browsers.length > 0 ? browsers.join(', ') : 'No supported browsers selected';
+}
@@ -0,0 +1,317 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AnalysisResult, BaselineService, BaselineTarget } from './baselineService';
+import { CodeAnalyzer, getLanguageForPath } from './codeAnalyzer';
+import { DiffScope, getChangedFiles, getDefaultBaseRef } from './gitDiff';
+import { GitignoreFilter } from './gitignore';
+import { MetricsTracker } from './metricsTracker';
+import { BaselinePolicy, FilePolicy, getFindingSeverity, parsePolicy, POLICY_FILE_NAME, resolvePolicy } from './policy';
+import { createSarifLog } from './sarif';
+import { aggregateScores } from './scoring';
+
+type OutputFormat = 'table' | 'json' | 'sarif';
+
+interface ScanOptions {
+    directory: string;
+    format: OutputFormat;
+    output?: string;
+    target?: BaselineTarget;
+    policy?: string;
+    // Diff scan: only files changed against `base`, optionally only their changed lines
+    changed: boolean;
+    base?: string;
+    changedLines: boolean;
+    respectGitignore: boolean;
+}
+
+interface SourceFile {
+    absolutePath: string;
+    relativePath: string;
+    languageId: string;
+}
+
+// Exit codes: error findings fail the build, bad arguments are reported separately
+const EXIT_OK = 0;
+const EXIT_FINDING_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+// Matches the default `baseline-modernizer.exclude` setting
+const EXCLUDED_DIRECTORIES = ['node_modules', 'out', 'dist', 'build', 'coverage', '.git'];
+
+const TARGETS: BaselineTarget[] = ['high', 'low', 'false'];
+const FORMATS: OutputFormat[] = ['table', 'json', 'sarif'];
+
+const USAGE = `Usage: baseline-modernizer scan <dir> [options]
+
+Analyzes the web sources in <dir> for legacy patterns and web features that are
+not Baseline widely available.
+
+Options:
+  --format <table|json|sarif>  Output format (default: table)
+  --output <file>              Write the report to a file instead of stdout
+  --target <high|low|false>    Baseline target; defaults to the policy file's target, then
+                               baseline-modernizer.targetBaseline in <dir>/.vscode/settings.json,
+                               then "low"
+  --policy <file>              Policy file with allow/deny lists, overrides and rule severities
+                               (default: <dir>/.baseline.json when present)
+  --changed                    Only scan files changed since the merge base with --base,
+                               including uncommitted and untracked files
+  --base <ref>                 Branch, tag or commit to diff against (implies --changed; default:
+                               origin's default branch, then main or master)
+  --changed-lines              Only report findings on added or modified lines (implies --changed)
+  --no-gitignore               Also scan files ignored by .gitignore
+  -h, --help                   Show this help
+
+Exits with 1 when a finding is an error, which by default means a used feature falls
+below the target, and 2 on invalid arguments, an invalid policy file, a failed git diff
+or any other error.`;
+
+class UsageError extends Error {}
+
+function parseArguments(args: string[]): ScanOptions {
+    const [command, ...rest] = args;
+    if (command !== 'scan') {
+        throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+    }
+
+    const options: Partial<ScanOptions> = { format: 'table', changed: false, changedLines: false, respectGitignore: true };
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        const value = () => {
+            const next = rest[++i];
+            if (next === undefined || next.startsWith('--')) throw new UsageError(`${arg} needs a value`);
+            return next;
+        };
+
+        if (arg === '--format') {
+            const format = value() as OutputFormat;
+            if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`);
+            options.format = format;
+        } else if (arg === '--output') {
+            options.output = value();
+        } else if (arg === '--target') {
+            const target = value() as BaselineTarget;
+            if (!TARGETS.includes(target)) throw new UsageError(`--target must be one of ${TARGETS.join(', ')}`);
+            options.target = target;
+        } else if (arg === '--policy') {
+            options.policy = value();
+        } else if (arg === '--changed') {
+            options.changed = true;
+        } else if (arg === '--base') {
+            options.base = value();
+            options.changed = true;
+        } else if (arg === '--changed-lines') {
+            options.changedLines = true;
+            options.changed = true;
+        } else if (arg === '--no-gitignore') {
+            options.respectGitignore = false;
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option "${arg}"`);
+        } else if (!options.directory) {
+            options.directory = arg;
+        } else {
+            throw new UsageError(`Unexpected argument "${arg}"`);
+        }
+    }
+
+    if (!options.directory) throw new UsageError('Missing directory to scan');
+    return options as ScanOptions;
+}
+
+/** The `targetBaseline` a VS Code workspace at `root` is configured with, if any. */
+function readConfiguredTarget(root: string): BaselineTarget | undefined {
+    const settingsPath = path.join(root, '.vscode', 'settings.json');
+    if (!fs.existsSync(settingsPath)) return undefined;
+
+    // settings.json allows comments and trailing commas, which the TypeScript config parser accepts
+    const { config } = ts.parseConfigFileTextToJson(settingsPath, fs.readFileSync(settingsPath, 'utf8'));
+    const target = config?.['baseline-modernizer.targetBaseline'];
+    return TARGETS.includes(target) ? target : undefined;
+}
+
+/** The policy in `policyPath`, or in `<root>/.baseline.json` when no path is given and that file exists. */
+function readPolicy(root: string, policyPath: string | undefined): BaselinePolicy | undefined {
+    const file = policyPath ? path.resolve(policyPath) : path.join(root, POLICY_FILE_NAME);
+    if (!fs.existsSync(file)) {
+        if (policyPath) throw new UsageError(`${policyPath} does not exist`);
+        return undefined;
+    }
+
+    try {
+        return parsePolicy(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/** Lists analyzable files below `root`, skipping build output and, optionally, ignored files. */
+function findSourceFiles(root: string, respectGitignore: boolean): SourceFile[] {
+    const filter = new GitignoreFilter();
+    const files: SourceFile[] = [];
+
+    const walk = (directory: string) => {
+        const relativeDirectory = path.relative(root, directory).split(path.sep).join('/');
+        const entries = fs.readdirSync(directory, { withFileTypes: true });
+
+        // Parents are visited before children, so nested .gitignore files can override their ancestors
+        if (respectGitignore && entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+            filter.addFile(relativeDirectory, fs.readFileSync(path.join(directory, '.gitignore'), 'utf8'));
+        }
+
+        entries.forEach(entry => {
+            const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+            if (respectGitignore && filter.isIgnored(relativePath)) return;
+
+            if (entry.isDirectory()) {
+                if (!EXCLUDED_DIRECTORIES.includes(entry.name)) walk(path.join(directory, entry.name));
+            } else if (entry.isFile()) {
+                const languageId = getLanguageForPath(entry.name);
+                if (languageId) files.push({ absolutePath: path.join(directory, entry.name), relativePath, languageId });
+            }
+        });
+    };
+    walk(root);
+
+    return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+function formatTable(
+    results: AnalysisResult[],
+    baselineService: BaselineService,
+    getPolicy: (fileName: string) => FilePolicy,
+    filesScanned: number,
+    diff?: DiffScope
+): string {
+    let filesWithIssues = 0;
+    const rows = results.flatMap(result => {
+        const policy = getPolicy(result.fileName);
+        const fileRows = result.patterns.flatMap(pattern => {
+            const severity = getFindingSeverity(policy, pattern.pattern, baselineService);
+            if (severity === 'off') return [];
+
+            const feature = baselineService.isLegacyPattern(pattern.pattern) ? undefined : baselineService.getFeatureInfo(pattern.pattern);
+            return pattern.locations.map(location => [
+                `${result.fileName}:${location.line}:${location.column}`,
+                pattern.pattern,
+                feature ? String(feature.status.baseline) : 'legacy',
+                severity,
+                location.suggestion
+            ]);
+        });
+
+        if (fileRows.length > 0) filesWithIssues++;
+        return fileRows;
+    });
+
+    const header = ['Location', 'Pattern', 'Status', 'Severity', 'Message'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => column < cells.length - 1 ? cell.padEnd(widths[column]) : cell).join('  ');
+
+    const errors = rows.filter(row => row[3] === 'error').length;
+    const suppressed = results.reduce((total, result) => total + result.suppressions.length, 0);
+    const scope = diff ? `Diff scan against ${diff.baseRef} (${diff.mergeBase.slice(0, 7)}): ` : '';
+    const summary = `${scope}${rows.length} findings in ${filesWithIssues} of ${filesScanned} ${diff ? 'changed ' : ''}files; ${errors} errors` +
+        (suppressed > 0 ? `; ${suppressed} suppressed by baseline-ignore comments` : '') +
+        `; Baseline score ${aggregateScores(results, baselineService).score}`;
+
+    return rows.length > 0
+        ? [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line), '', summary].join('\n')
+        : summary;
+}
+
+function readVersion(): string | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return undefined;
+    }
+}
+
+/** The files changed against the base ref, or undefined for a full scan. */
+async function readDiffScope(root: string, options: ScanOptions): Promise<DiffScope | undefined> {
+    if (!options.changed) return undefined;
+
+    const base = options.base || await getDefaultBaseRef(root);
+    if (!base) throw new UsageError('Could not find a default branch to diff against; pass --base <ref>');
+
+    try {
+        return await getChangedFiles(root, base, options.changedLines);
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+async function scan(options: ScanOptions): Promise<number> {
+    const root = path.resolve(options.directory);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+        throw new UsageError(`${options.directory} is not a directory`);
+    }
+
+    // --target replaces the policy's own target; overrides for matching files still apply
+    const filePolicy = readPolicy(root, options.policy);
+    const policy = filePolicy && options.target ? { ...filePolicy, target: options.target } : filePolicy;
+    const getPolicy = (fileName?: string) => resolvePolicy(policy, fileName, options.target || readConfiguredTarget(root) || 'low');
+    const target = getPolicy(undefined).target;
+
+    const baselineService = new BaselineService();
+    const codeAnalyzer = new CodeAnalyzer(baselineService, getPolicy);
+    const metricsTracker = new MetricsTracker();
+
+    const diff = await readDiffScope(root, options);
+    const changed = diff && new Map(diff.files.map(file => [file.path, file]));
+    const files = findSourceFiles(root, options.respectGitignore).filter(file => !changed || changed.has(file.relativePath));
+    const results = files.map(file => {
+        const changedLines = changed?.get(file.relativePath)?.changedLines;
+        const result = codeAnalyzer.analyze(fs.readFileSync(file.absolutePath, 'utf8'), file.relativePath, file.languageId, changedLines);
+        metricsTracker.recordAnalysis(result);
+        return result;
+    });
+
+    let report: string;
+    if (options.format === 'json') {
+        report = metricsTracker.exportMetrics();
+    } else if (options.format === 'sarif') {
+        report = JSON.stringify(createSarifLog(results, baselineService, target, readVersion(), getPolicy), null, 2);
+    } else {
+        report = formatTable(results, baselineService, getPolicy, files.length, diff);
+    }
+
+    if (options.output) {
+        fs.writeFileSync(options.output, report + '\n');
+    } else {
+        process.stdout.write(report + '\n');
+    }
+
+    const failed = results.some(result => {
+        const policy = getPolicy(result.fileName);
+        return result.patterns.some(pattern => getFindingSeverity(policy, pattern.pattern, baselineService) === 'error');
+    });
+    return failed ? EXIT_FINDING_ERRORS : EXIT_OK;
+}
+
+async function main(args: string[]): Promise<number> {
+    if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+        process.stdout.write(USAGE + '\n');
+        return args.length === 0 ? EXIT_USAGE : EXIT_OK;
+    }
+
+    try {
+        return await scan(parseArguments(args));
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}).catch(error => {
+    // e.g. an unreadable file or report path
+    console.error(`baseline-modernizer: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = EXIT_USAGE;
+});
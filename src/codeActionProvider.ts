@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { BaselineDiagnosticsProvider, DIAGNOSTIC_SOURCE } from './diagnosticsProvider';
+import { computeFixes } from './quickFixes';
+
+export const RECORD_FIX_COMMAND = 'baseline-modernizer.recordFix';
+
+export class BaselineCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnosticsProvider: BaselineDiagnosticsProvider;
+
+    constructor(diagnosticsProvider: BaselineDiagnosticsProvider) {
+        this.diagnosticsProvider = diagnosticsProvider;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const relativePath = vscode.workspace.asRelativePath(document.uri);
+
+        context.diagnostics
+            .filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE)
+            .forEach(diagnostic => {
+                const pattern = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+                if (pattern === undefined || !this.isFixable(document.uri, String(pattern), diagnostic.range.start)) return;
+
+                const fixes = computeFixes(
+                    document.getText(),
+                    document.languageId,
+                    String(pattern),
+                    document.offsetAt(diagnostic.range.start)
+                );
+
+                fixes.forEach(fix => {
+                    const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                    const edit = new vscode.WorkspaceEdit();
+                    fix.edits.forEach(change => {
+                        edit.replace(
+                            document.uri,
+                            new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)),
+                            change.newText
+                        );
+                    });
+
+                    action.edit = edit;
+                    action.diagnostics = [diagnostic];
+                    action.isPreferred = fix.isPreferred;
+                    // Runs after the edit is applied so the dashboard counts real modernizations
+                    action.command = {
+                        command: RECORD_FIX_COMMAND,
+                        title: 'Record Baseline fix',
+                        arguments: [fix.featureId, relativePath, { line: diagnostic.range.start.line + 1, column: diagnostic.range.start.character + 1 }]
+                    };
+                    actions.push(action);
+                });
+            });
+
+        return actions;
+    }
+
+    /** Whether the analysis behind the diagnostic found its rewrite safe, e.g. a var not captured by closures in a loop. */
+    private isFixable(uri: vscode.Uri, pattern: string, start: vscode.Position): boolean {
+        const location = this.diagnosticsProvider.getResult(uri)?.patterns
+            .find(candidate => candidate.pattern === pattern)?.locations
+            .find(candidate => candidate.line === start.line + 1 && candidate.column === start.character + 1);
+        return location?.fixable === true;
+    }
+}
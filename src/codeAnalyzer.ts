@@ -0,0 +1,358 @@
+import { AnalysisResult, BaselineService, ModernAlternative, PatternMatch } from './baselineService';
+import { findEmbeddedRegions, RegionKind, SourceRegion, splitSingleFileComponent } from './componentRegions';
+import { CssAnalyzer } from './cssAnalyzer';
+import { HtmlAnalyzer } from './htmlAnalyzer';
+import { FilePolicy, getPolicySeverity } from './policy';
+import { computeFixes, FIXABLE_PATTERNS } from './quickFixes';
+import { ScriptAnalyzer } from './scriptAnalyzer';
+import { applySuppressions } from './suppressions';
+
+// Single-file components hold regions of every other kind
+type SourceKind = RegionKind | 'component';
+
+interface LegacyPatternRule {
+    pattern: string;
+    kinds: RegionKind[];
+    regex: RegExp;
+    // Which capture group marks the reported location (defaults to the whole match)
+    group?: number;
+    suggestion: (match: RegExpExecArray) => string;
+}
+
+const SCRIPT_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+const STYLE_LANGUAGES = ['css', 'scss', 'less'];
+const MARKUP_LANGUAGES = ['html'];
+const COMPONENT_LANGUAGES = ['vue', 'svelte'];
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+    js: 'javascript',
+    mjs: 'javascript',
+    cjs: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    mts: 'typescript',
+    cts: 'typescript',
+    tsx: 'typescriptreact',
+    css: 'css',
+    scss: 'scss',
+    less: 'less',
+    html: 'html',
+    htm: 'html',
+    vue: 'vue',
+    svelte: 'svelte'
+};
+
+// Legacy patterns keyed by the same names BaselineService uses for its modern alternatives;
+// script and markup patterns need a parse tree and are found by ScriptAnalyzer and HtmlAnalyzer
+const LEGACY_PATTERN_RULES: LegacyPatternRule[] = [
+    {
+        pattern: 'float',
+        kinds: ['style', 'markup'],
+        regex: /(?:^|[;{\s"'])(float)\s*:\s*(?:left|right)\b/gi,
+        group: 1,
+        suggestion: () => 'Replace float-based layout with Flexbox or Grid'
+    }
+];
+
+export function getLanguageForPath(filePath: string): string | undefined {
+    const extension = filePath.split('.').pop()?.toLowerCase() || '';
+    return EXTENSION_LANGUAGES[extension];
+}
+
+export const SUPPORTED_LANGUAGES = [...SCRIPT_LANGUAGES, ...STYLE_LANGUAGES, ...MARKUP_LANGUAGES, ...COMPONENT_LANGUAGES];
+
+// How messages name each language; React variants go by their base language
+const LANGUAGE_NAMES: Record<string, string> = {
+    javascript: 'JavaScript',
+    javascriptreact: 'JavaScript',
+    typescript: 'TypeScript',
+    typescriptreact: 'TypeScript',
+    css: 'CSS',
+    scss: 'SCSS',
+    less: 'Less',
+    html: 'HTML',
+    vue: 'Vue',
+    svelte: 'Svelte'
+};
+
+/** Lists the supported languages for messages, e.g. "JavaScript, TypeScript, … or Svelte". */
+export function describeSupportedLanguages(conjunction: 'and' | 'or'): string {
+    const names = Array.from(new Set(SUPPORTED_LANGUAGES.map(language => LANGUAGE_NAMES[language] || language)));
+    return `${names.slice(0, -1).join(', ')} ${conjunction} ${names[names.length - 1]}`;
+}
+
+/** File extensions the project scan picks up. */
+export const SOURCE_EXTENSIONS = Object.keys(EXTENSION_LANGUAGES);
+
+export function isSupportedLanguage(languageId: string): boolean {
+    return getSourceKind(languageId) !== undefined;
+}
+
+function getSourceKind(languageId: string): SourceKind | undefined {
+    if (SCRIPT_LANGUAGES.includes(languageId)) return 'script';
+    if (STYLE_LANGUAGES.includes(languageId)) return 'style';
+    if (MARKUP_LANGUAGES.includes(languageId)) return 'markup';
+    if (COMPONENT_LANGUAGES.includes(languageId)) return 'component';
+    return undefined;
+}
+
+export function maskSource(text: string, languageId: string): string {
+    const kind = getSourceKind(languageId);
+    if (kind !== 'component') return kind ? maskNonCode(text, kind) : text;
+
+    // Each block of a component is masked by its own comment and string syntax
+    return splitSingleFileComponent(text, languageId).reduce((masked, region) =>
+        masked.slice(0, region.offset) + maskNonCode(region.text, region.kind) + masked.slice(region.offset + region.text.length), text);
+}
+
+/**
+ * Blanks out comments and string contents while preserving offsets and line breaks,
+ * so that pattern matching never reports code that is only mentioned in text.
+ */
+function maskNonCode(text: string, kind: RegionKind): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number) => {
+        for (let i = from; i < to && i < chars.length; i++) {
+            if (chars[i] !== '\n' && chars[i] !== '\r') {
+                chars[i] = ' ';
+            }
+        }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        const next = text[i + 1];
+
+        if (kind === 'markup') {
+            if (text.startsWith('<!--', i)) {
+                const end = text.indexOf('-->', i + 4);
+                const stop = end === -1 ? text.length : end + 3;
+                blank(i, stop);
+                i = stop;
+                continue;
+            }
+            i++;
+            continue;
+        }
+
+        if (ch === '/' && next === '*') {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            blank(i, stop);
+            i = stop;
+        } else if (ch === '/' && next === '/' && kind === 'script') {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+            blank(i, stop);
+            i = stop;
+        } else if (ch === '"' || ch === '\'' || (ch === '`' && kind === 'script')) {
+            let j = i + 1;
+            while (j < text.length && text[j] !== ch) {
+                if (text[j] === '\\') j++;
+                else if (text[j] === '\n' && ch !== '`') break;
+                j++;
+            }
+            blank(i + 1, j);
+            i = j + 1;
+        } else {
+            i++;
+        }
+    }
+
+    return chars.join('');
+}
+
+export function createPositionLookup(text: string): (offset: number) => { line: number; column: number } {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    return (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+}
+
+export class CodeAnalyzer {
+    private baselineService: BaselineService;
+    private cssAnalyzer: CssAnalyzer;
+    private scriptAnalyzer: ScriptAnalyzer;
+    private htmlAnalyzer: HtmlAnalyzer;
+    private getPolicy: ((fileName: string) => FilePolicy) | undefined;
+
+    /** `getPolicy` resolves the policy of an analyzed file, which can turn widely available features into findings. */
+    constructor(baselineService: BaselineService, getPolicy?: (fileName: string) => FilePolicy) {
+        this.baselineService = baselineService;
+        this.getPolicy = getPolicy;
+        this.cssAnalyzer = new CssAnalyzer(baselineService);
+        this.scriptAnalyzer = new ScriptAnalyzer(baselineService);
+        this.htmlAnalyzer = new HtmlAnalyzer(baselineService, this.cssAnalyzer, this.scriptAnalyzer);
+    }
+
+    /**
+     * Scans source text for legacy patterns that have a known modern alternative and for
+     * web features that are not Baseline widely available, or that are but the file's policy
+     * denies or sets a rule for. Components and scripts with
+     * embedded markup are split into regions that are each analyzed in their own language.
+     * Findings silenced by `baseline-ignore` comments are listed as suppressions instead,
+     * and with `changedLines` only findings on those lines are kept.
+     * Lines and columns in the result are 1-based and refer to the whole file.
+     */
+    analyze(text: string, fileName: string, languageId: string, changedLines?: Set<number>): AnalysisResult {
+        const kind = getSourceKind(languageId);
+        const result: AnalysisResult = {
+            fileName,
+            language: languageId,
+            lineCount: text.split('\n').length,
+            issuesFound: 0,
+            patterns: [],
+            suppressions: [],
+            recommendations: [],
+            baselineScore: 100,
+            scoreBreakdown: []
+        };
+
+        if (!kind) return result;
+
+        const positionOf = createPositionLookup(text);
+        const policy = this.getPolicy?.(fileName);
+        const matches = this.findMatches(text, languageId)
+            .filter(match => this.isFinding(match.pattern, policy))
+            .filter(match => !changedLines || changedLines.has(positionOf(match.offset).line));
+
+        const { reported, suppressions } = applySuppressions(matches, text, positionOf);
+
+        // Masked once for all quick fix checks, and only when a fixable pattern was found
+        let masked: string | undefined;
+        const isFixable = (match: PatternMatch) => match.fixable !== false && FIXABLE_PATTERNS.includes(match.pattern) &&
+            computeFixes(text, languageId, match.pattern, match.offset, masked ??= maskSource(text, languageId)).length > 0;
+
+        result.patterns = groupMatches(reported, positionOf, isFixable);
+        result.suppressions = suppressions;
+        result.issuesFound = result.patterns.reduce((sum, pattern) => sum + pattern.count, 0);
+        result.recommendations = this.collectRecommendations(result.patterns.map(p => p.pattern));
+        const score = this.baselineService.calculateBaselineScore(result);
+        result.baselineScore = score.score;
+        result.scoreBreakdown = score.breakdown;
+
+        return result;
+    }
+
+    /**
+     * Every match in the text with offsets into it, before `baseline-ignore` comments are
+     * applied. Includes widely available features, e.g. to look up what a hover points at.
+     */
+    findMatches(text: string, languageId: string): PatternMatch[] {
+        const kind = getSourceKind(languageId);
+        if (!kind) return [];
+
+        return this.getRegions(text, languageId, kind)
+            .flatMap(region => this.analyzeRegion(region))
+            .sort((a, b) => a.offset - b.offset);
+    }
+
+    /** Widely available features are findings only where the policy denies them or sets a rule other than `off`. */
+    private isFinding(pattern: string, policy: FilePolicy | undefined): boolean {
+        // getFeatureInfo resolves legacy patterns to their replacement, which is usually widely available
+        if (this.baselineService.isLegacyPattern(pattern)) return true;
+        if (this.baselineService.getFeatureInfo(pattern)?.status.baseline !== 'high') return true;
+        const severity = policy && getPolicySeverity(policy, pattern);
+        return severity !== undefined && severity !== 'off';
+    }
+
+    private getRegions(text: string, languageId: string, kind: SourceKind): SourceRegion[] {
+        const regions: SourceRegion[] = kind === 'component'
+            ? splitSingleFileComponent(text, languageId)
+            : [{ kind, languageId, offset: 0, text }];
+
+        // Scripts can carry markup of their own: JSX elements and Angular inline templates
+        return regions.flatMap(region => region.kind !== 'script' ? [region] : [
+            region,
+            ...findEmbeddedRegions(region.text, region.languageId).map(embedded => ({ ...embedded, offset: embedded.offset + region.offset }))
+        ]);
+    }
+
+    /** Matches in one region, with offsets into the whole file. */
+    private analyzeRegion(region: SourceRegion): PatternMatch[] {
+        const matches = this.matchLegacyPatterns(maskNonCode(region.text, region.kind), region.kind);
+        if (region.kind === 'style') {
+            matches.push(...this.cssAnalyzer.analyze(region.text, region.languageId));
+        } else if (region.kind === 'script') {
+            matches.push(...this.scriptAnalyzer.analyze(region.text, region.languageId));
+        } else {
+            matches.push(...this.htmlAnalyzer.analyze(region.text, region.languageId));
+        }
+
+        return matches.map(match => ({ ...match, offset: match.offset + region.offset }));
+    }
+
+    private matchLegacyPatterns(searchable: string, kind: RegionKind): PatternMatch[] {
+        const matches: PatternMatch[] = [];
+
+        for (const rule of LEGACY_PATTERN_RULES) {
+            if (!rule.kinds.includes(kind)) continue;
+
+            const regex = new RegExp(rule.regex.source, rule.regex.flags);
+            let match: RegExpExecArray | null;
+
+            while ((match = regex.exec(searchable)) !== null) {
+                const matched = rule.group !== undefined ? match[rule.group] : match[0];
+                matches.push({
+                    pattern: rule.pattern,
+                    offset: match.index + match[0].lastIndexOf(matched),
+                    length: matched.length,
+                    suggestion: rule.suggestion(match)
+                });
+                if (match[0].length === 0) regex.lastIndex++;
+            }
+        }
+
+        return matches;
+    }
+
+    private collectRecommendations(patterns: string[]): ModernAlternative[] {
+        const seen = new Set<string>();
+        const recommendations: ModernAlternative[] = [];
+
+        // Feature usages have no alternative; only legacy patterns carry recommendations
+        patterns.filter(pattern => this.baselineService.isLegacyPattern(pattern)).forEach(pattern => {
+            this.baselineService.getModernAlternatives(pattern).forEach(alternative => {
+                if (!seen.has(alternative.feature)) {
+                    seen.add(alternative.feature);
+                    recommendations.push(alternative);
+                }
+            });
+        });
+
+        return recommendations;
+    }
+}
+
+/** Groups matches by pattern, keeping the order in which patterns first appear. */
+function groupMatches(
+    matches: PatternMatch[],
+    positionOf: (offset: number) => { line: number; column: number },
+    isFixable: (match: PatternMatch) => boolean
+): AnalysisResult['patterns'] {
+    const patterns = new Map<string, AnalysisResult['patterns'][number]>();
+
+    matches.forEach(match => {
+        let entry = patterns.get(match.pattern);
+        if (!entry) {
+            entry = { pattern: match.pattern, count: 0, locations: [] };
+            patterns.set(match.pattern, entry);
+        }
+        entry.count++;
+        entry.locations.push({ ...positionOf(match.offset), length: match.length, suggestion: match.suggestion, fixable: isFixable(match) });
+    });
+
+    return Array.from(patterns.values());
+}
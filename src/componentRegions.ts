@@ -0,0 +1,155 @@
+import * as ts from 'typescript';
+import { parseScript } from './scriptAnalyzer';
+
+export type RegionKind = 'script' | 'style' | 'markup';
+
+/** Part of a file that is analyzed in its own language; `offset` is where `text` starts in the file. */
+export interface SourceRegion {
+    kind: RegionKind;
+    languageId: string;
+    offset: number;
+    text: string;
+}
+
+const SCRIPT_LANGS: Record<string, string> = {
+    js: 'javascript',
+    ts: 'typescript',
+    jsx: 'javascriptreact',
+    tsx: 'typescriptreact'
+};
+
+const STYLE_LANGS: Record<string, string> = {
+    css: 'css',
+    postcss: 'css',
+    scss: 'scss',
+    less: 'less'
+};
+
+// Script languages whose files may contain JSX elements
+const JSX_LANGUAGES = ['javascriptreact', 'typescriptreact'];
+
+/**
+ * Splits a Vue or Svelte single-file component into its top-level blocks. Vue markup
+ * is the content of the top-level `<template>`; in Svelte every stretch outside
+ * `<script>` and `<style>` is markup. Blocks in languages that cannot be analyzed,
+ * such as Pug templates or Stylus styles, are left out.
+ */
+export function splitSingleFileComponent(text: string, languageId: string): SourceRegion[] {
+    const regions: SourceRegion[] = [];
+    const block = /<!--[\s\S]*?(?:-->|$)|<(template|script|style)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+    let markupStart = 0;
+    let match: RegExpExecArray | null;
+
+    const addMarkup = (start: number, end: number) => {
+        if (languageId === 'svelte' && end > start) {
+            regions.push({ kind: 'markup', languageId, offset: start, text: text.slice(start, end) });
+        }
+    };
+
+    while ((match = block.exec(text)) !== null) {
+        if (!match[1]) continue;
+
+        const name = match[1].toLowerCase();
+        // Svelte has no template block; a <template> there is plain markup
+        if (name === 'template' && languageId === 'svelte') continue;
+
+        const contentStart = match.index + match[0].length;
+        const contentEnd = name === 'template' ? findTemplateEnd(text, contentStart) : indexOfClosingTag(text, name, contentStart);
+        const lang = /\blang\s*=\s*["']?([\w-]+)/i.exec(match[2])?.[1].toLowerCase();
+        const content = text.slice(contentStart, contentEnd);
+
+        if (name === 'template') {
+            if (!lang || lang === 'html') {
+                regions.push({ kind: 'markup', languageId, offset: contentStart, text: content });
+            }
+        } else {
+            addMarkup(markupStart, match.index);
+
+            const regionLanguage = name === 'script' ? SCRIPT_LANGS[lang || 'js'] : STYLE_LANGS[lang || 'css'];
+            if (regionLanguage) {
+                regions.push({ kind: name === 'script' ? 'script' : 'style', languageId: regionLanguage, offset: contentStart, text: content });
+            }
+            markupStart = closingTagEnd(text, name, contentEnd);
+        }
+
+        block.lastIndex = closingTagEnd(text, name, contentEnd);
+    }
+
+    addMarkup(markupStart, text.length);
+    return regions.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Markup and styles embedded in a script: intrinsic JSX elements such as `<dialog>`
+ * and the inline `template` and `styles` of Angular `@Component` decorators.
+ */
+export function findEmbeddedRegions(text: string, languageId: string): SourceRegion[] {
+    const hasJsx = JSX_LANGUAGES.includes(languageId);
+    if (!hasJsx && !text.includes('@Component')) return [];
+
+    const sourceFile = parseScript(text, languageId);
+    const regions: SourceRegion[] = [];
+
+    const literalRegion = (node: ts.Expression, regionKind: RegionKind, regionLanguage: string) => {
+        if (!ts.isStringLiteral(node) && !ts.isNoSubstitutionTemplateLiteral(node)) return;
+        // The raw source between the quotes, so offsets survive escape sequences
+        const start = node.getStart(sourceFile) + 1;
+        regions.push({ kind: regionKind, languageId: regionLanguage, offset: start, text: text.slice(start, node.getEnd() - 1) });
+    };
+
+    const visit = (node: ts.Node) => {
+        if (hasJsx && (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+            ts.isIdentifier(node.tagName) && /^[a-z]/.test(node.tagName.text)) {
+            regions.push({ kind: 'markup', languageId, offset: node.getStart(sourceFile), text: node.getText(sourceFile) });
+        }
+
+        if (ts.isDecorator(node) && ts.isCallExpression(node.expression) &&
+            ts.isIdentifier(node.expression.expression) && node.expression.expression.text === 'Component') {
+            const options = node.expression.arguments[0];
+            if (options && ts.isObjectLiteralExpression(options)) {
+                options.properties.forEach(property => {
+                    if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) return;
+                    if (property.name.text === 'template') {
+                        literalRegion(property.initializer, 'markup', 'html');
+                    } else if (property.name.text === 'styles') {
+                        const styles = ts.isArrayLiteralExpression(property.initializer) ? property.initializer.elements : [property.initializer];
+                        styles.forEach(style => literalRegion(style, 'style', 'css'));
+                    }
+                });
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return regions;
+}
+
+/** The end of the content of a top-level `<template>`, skipping nested template elements. */
+function findTemplateEnd(text: string, start: number): number {
+    const tag = /<(\/?)template\b[^>]*>/gi;
+    tag.lastIndex = start;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+
+    while ((match = tag.exec(text)) !== null) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) return match.index;
+    }
+    return text.length;
+}
+
+function indexOfClosingTag(text: string, name: string, start: number): number {
+    const closing = new RegExp(`</${name}\\s*>`, 'ig');
+    closing.lastIndex = start;
+    const match = closing.exec(text);
+    return match ? match.index : text.length;
+}
+
+function closingTagEnd(text: string, name: string, contentEnd: number): number {
+    const closing = new RegExp(`</${name}\\s*>`, 'iy');
+    closing.lastIndex = contentEnd;
+    const match = closing.exec(text);
+    return match ? contentEnd + match[0].length : contentEnd;
+}
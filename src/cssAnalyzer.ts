@@ -0,0 +1,448 @@
+import { BaselineService, describeStatus, PatternMatch } from './baselineService';
+
+type BlockContext =
+    | { kind: 'rule'; selector: string; offset: number; declarations: Map<string, string> }
+    | { kind: 'at-rule'; name: string };
+
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/i;
+
+// At-rules whose blocks hold descriptors (`css.at-rules.font-face.font-display`) rather than properties
+const DESCRIPTOR_AT_RULES = ['font-face', 'counter-style', 'font-palette-values', 'font-feature-values', 'property', 'page', 'view-transition', 'position-try'];
+
+// Unit groups that browser-compat-data tracks as one entry
+const UNIT_GROUPS: Record<string, string[]> = {
+    container_query_length_units: ['cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax'],
+    viewport_percentage_units_small: ['svw', 'svh', 'svi', 'svb', 'svmin', 'svmax'],
+    viewport_percentage_units_large: ['lvw', 'lvh', 'lvi', 'lvb', 'lvmin', 'lvmax'],
+    viewport_percentage_units_dynamic: ['dvw', 'dvh', 'dvi', 'dvb', 'dvmin', 'dvmax']
+};
+
+// Standard names that have worked unprefixed in every Baseline browser for years, but
+// predate the web-features dataset and so cannot be looked up there
+const LONG_UNPREFIXED: Record<'properties' | 'values' | 'functions' | 'at-rules' | 'selectors', string[]> = {
+    properties: [
+        'animation', 'animation-name', 'animation-duration', 'animation-timing-function', 'animation-delay',
+        'animation-iteration-count', 'animation-direction', 'animation-fill-mode', 'animation-play-state',
+        'transition', 'transition-property', 'transition-duration', 'transition-timing-function', 'transition-delay',
+        'transform', 'transform-origin', 'transform-style', 'perspective', 'perspective-origin', 'backface-visibility',
+        'border-radius', 'border-top-left-radius', 'border-top-right-radius', 'border-bottom-left-radius',
+        'border-bottom-right-radius', 'box-shadow', 'box-sizing', 'background-clip', 'background-origin',
+        'background-size', 'flex', 'flex-direction', 'flex-wrap', 'flex-flow', 'flex-grow', 'flex-shrink',
+        'flex-basis', 'align-items', 'align-self', 'align-content', 'justify-content', 'order', 'columns',
+        'column-count', 'column-gap', 'column-rule', 'column-width', 'opacity', 'filter'
+    ],
+    values: ['flex', 'inline-flex', 'grid', 'inline-grid', 'sticky'],
+    functions: ['linear-gradient', 'radial-gradient', 'repeating-linear-gradient', 'repeating-radial-gradient', 'calc'],
+    'at-rules': ['keyframes'],
+    selectors: ['selection', 'placeholder']
+};
+
+// Pre-standard flexbox values and their modern equivalents
+const LEGACY_DISPLAY_VALUES: Record<string, string> = {
+    box: 'flex',
+    'inline-box': 'inline-flex',
+    flexbox: 'flex',
+    'inline-flexbox': 'inline-flex'
+};
+
+/**
+ * Maps stylesheets onto browser-compat-data keys: every property, value keyword,
+ * function, unit, at-rule, media feature and pseudo-class becomes a key like
+ * `css.properties.display.grid`, which BaselineService resolves to a web feature.
+ * Every feature found is reported, together with legacy idioms: clearfix hacks and
+ * vendor prefixes that are no longer needed.
+ * Works on CSS, SCSS and Less; preprocessor-only syntax is skipped.
+ */
+export class CssAnalyzer {
+    private baselineService: BaselineService;
+    private typeKeys: Map<string, string> | undefined;
+    private unitKeys: Map<string, string> | undefined;
+
+    constructor(baselineService: BaselineService) {
+        this.baselineService = baselineService;
+    }
+
+    analyze(text: string, languageId: string): PatternMatch[] {
+        const matches: PatternMatch[] = [];
+        const seen = new Set<string>();
+        const report = (match: PatternMatch) => {
+            const key = `${match.pattern}@${match.offset}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                matches.push(match);
+            }
+        };
+
+        const source = blankComments(text, languageId !== 'css');
+        const stack: BlockContext[] = [];
+        let segmentStart = 0;
+
+        const flushDeclaration = (end: number) => {
+            const segment = source.slice(segmentStart, end);
+            const offset = segmentStart + segment.search(/\S|$/);
+            const statement = segment.trim();
+            if (!statement) return;
+
+            if (statement.startsWith('@')) {
+                this.visitAtRule(statement, offset, report);
+            } else {
+                this.visitDeclaration(statement, offset, stack, report);
+            }
+        };
+
+        for (let i = 0; i < source.length; i++) {
+            const ch = source[i];
+
+            if (ch === '"' || ch === '\'') {
+                i = skipString(source, i);
+            } else if ((ch === '#' || ch === '@') && source[i + 1] === '{') {
+                // Preprocessor interpolation; its braces do not open a block
+                const end = source.indexOf('}', i);
+                i = end === -1 ? source.length : end;
+            } else if (ch === '(') {
+                i = skipParentheses(source, i);
+            } else if (ch === '{') {
+                const segment = source.slice(segmentStart, i);
+                const offset = segmentStart + segment.search(/\S|$/);
+                const prelude = segment.trim();
+
+                if (prelude.startsWith('@')) {
+                    const name = this.visitAtRule(prelude, offset, report);
+                    stack.push({ kind: 'at-rule', name });
+                } else {
+                    this.visitSelector(prelude, offset, stack, languageId, report);
+                    stack.push({ kind: 'rule', selector: prelude, offset, declarations: new Map() });
+                }
+                segmentStart = i + 1;
+            } else if (ch === ';') {
+                flushDeclaration(i);
+                segmentStart = i + 1;
+            } else if (ch === '}') {
+                flushDeclaration(i);
+                const closed = stack.pop();
+                if (closed?.kind === 'rule') {
+                    this.checkClearfix(closed, report);
+                }
+                segmentStart = i + 1;
+            }
+        }
+
+        return matches.sort((a, b) => a.offset - b.offset);
+    }
+
+    /** Analyzes the declarations of a `style` attribute, which have no surrounding block. */
+    analyzeDeclarations(text: string): PatternMatch[] {
+        // The terminating semicolon flushes a last declaration that has none; offsets are unaffected
+        return this.analyze(`${text};`, 'css');
+    }
+
+    private visitSelector(
+        selector: string,
+        offset: number,
+        stack: BlockContext[],
+        languageId: string,
+        report: (match: PatternMatch) => void
+    ): void {
+        // Nesting is native syntax only in plain CSS; preprocessors compile it away
+        if (languageId === 'css' && (selector.includes('&') || stack.some(context => context.kind === 'rule'))) {
+            this.reportKey('css.selectors.nesting', offset, selector.length, selector, report);
+        }
+
+        const searchable = maskStrings(selector).replace(/\[[^\]]*\]/g, brackets => ' '.repeat(brackets.length));
+        const pseudo = /::?(-?[a-zA-Z][\w-]*)/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pseudo.exec(searchable)) !== null) {
+            const name = match[1].toLowerCase();
+            const at = offset + match.index;
+
+            if (VENDOR_PREFIX.test(name)) {
+                const unprefixed = name.replace(VENDOR_PREFIX, '');
+                if (this.isSafeUnprefixed('selectors', unprefixed, `css.selectors.${unprefixed}`)) {
+                    report({
+                        pattern: 'vendor-prefix',
+                        offset: at,
+                        length: match[0].length,
+                        suggestion: `Use ${match[0].replace(/-(webkit|moz|ms|o)-/i, '')} instead of the prefixed ${match[0]}`
+                    });
+                }
+                continue;
+            }
+
+            const key = this.findKey(`css.selectors.${name}`);
+            if (key) this.reportKey(key, at, match[0].length, match[0], report);
+        }
+    }
+
+    /** Reports the at-rule and the media or container features in its prelude; returns its name. */
+    private visitAtRule(statement: string, offset: number, report: (match: PatternMatch) => void): string {
+        const nameMatch = /^@(-?[a-zA-Z][\w-]*)/.exec(statement);
+        if (!nameMatch) return '';
+
+        const name = nameMatch[1].toLowerCase();
+        // Less variables (`@gap: 4px`) share the at-rule syntax
+        if (/^@[\w-]+\s*:/.test(statement)) return name;
+
+        if (VENDOR_PREFIX.test(name)) {
+            const unprefixed = name.replace(VENDOR_PREFIX, '');
+            if (this.isSafeUnprefixed('at-rules', unprefixed, `css.at-rules.${unprefixed}`)) {
+                report({
+                    pattern: 'vendor-prefix',
+                    offset,
+                    length: nameMatch[0].length,
+                    suggestion: `Use @${unprefixed} instead of the prefixed ${nameMatch[0]}`
+                });
+            }
+            return unprefixed;
+        }
+
+        this.reportKey(`css.at-rules.${name}`, offset, nameMatch[0].length, nameMatch[0], report);
+
+        const prelude = maskStrings(statement);
+        const condition = /\(\s*(?:min-|max-)?([a-zA-Z][\w-]*)\s*(?=[:)<>=])/g;
+        let match: RegExpExecArray | null;
+        while ((match = condition.exec(prelude)) !== null) {
+            const feature = match[1].toLowerCase();
+            this.reportKey(`css.at-rules.${name}.${feature}`, offset + match.index + match[0].indexOf(match[1]), match[1].length, match[1], report);
+        }
+
+        if (name === 'import' && /\blayer\b/.test(prelude)) {
+            const at = prelude.search(/\blayer\b/);
+            this.reportKey('css.at-rules.import.layer', offset + at, 5, 'layer', report);
+        }
+
+        return name;
+    }
+
+    private visitDeclaration(
+        statement: string,
+        offset: number,
+        stack: BlockContext[],
+        reportAny: (match: PatternMatch) => void
+    ): void {
+        // `container-type: inline-size` hits two keys of the same feature; report it once
+        const reported = new Set<string>();
+        const report = (match: PatternMatch) => {
+            if (match.pattern !== 'vendor-prefix' && reported.has(match.pattern)) return;
+            reported.add(match.pattern);
+            reportAny(match);
+        };
+
+        const colon = statement.indexOf(':');
+        if (colon === -1) return;
+
+        const property = statement.slice(0, colon).trim();
+        // Skips SCSS/Less variables, interpolated names, custom properties and IE hacks like *zoom
+        if (!/^-?[a-zA-Z][\w-]*$/.test(property)) return;
+
+        const name = property.toLowerCase();
+        const rawValue = statement.slice(colon + 1);
+        const valueOffset = offset + colon + 1;
+        const value = maskStrings(rawValue).replace(/!\s*important\s*$/i, '');
+        const context = stack[stack.length - 1];
+
+        if (context?.kind === 'rule') {
+            context.declarations.set(name, value.trim().toLowerCase());
+        }
+
+        if (context?.kind === 'at-rule' && DESCRIPTOR_AT_RULES.includes(context.name)) {
+            this.reportKey(`css.at-rules.${context.name}.${name}`, offset, property.length, property, report);
+            return;
+        }
+
+        if (VENDOR_PREFIX.test(name)) {
+            const unprefixed = name.replace(VENDOR_PREFIX, '');
+            if (this.isSafeUnprefixed('properties', unprefixed, `css.properties.${unprefixed}`)) {
+                report({
+                    pattern: 'vendor-prefix',
+                    offset,
+                    length: property.length,
+                    suggestion: `Use the unprefixed ${unprefixed} property instead of ${property}`
+                });
+            }
+            return;
+        }
+
+        this.reportKey(`css.properties.${name}`, offset, property.length, property, report);
+        this.visitValue(name, value, valueOffset, report);
+    }
+
+    private visitValue(property: string, value: string, offset: number, report: (match: PatternMatch) => void): void {
+        const token = /url\([^)]*\)|#[\da-fA-F]+|\d*\.?\d+([a-zA-Z]+)\b|(-?[a-zA-Z][\w-]*)(\()?/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = token.exec(value)) !== null) {
+            const at = offset + match.index;
+
+            if (match[1]) {
+                const key = this.getUnitKeys().get(match[1].toLowerCase());
+                if (key) this.reportKey(key, at + match[0].length - match[1].length, match[1].length, match[0], report);
+                continue;
+            }
+            if (!match[2]) continue;
+
+            const word = match[2].toLowerCase();
+            const isFunction = Boolean(match[3]);
+
+            if (VENDOR_PREFIX.test(word)) {
+                const unprefixed = word.replace(VENDOR_PREFIX, '');
+                const legacyDisplay = property === 'display' ? LEGACY_DISPLAY_VALUES[unprefixed] : undefined;
+                const safe = legacyDisplay || (isFunction
+                    ? this.isSafeUnprefixed('functions', unprefixed, this.getTypeKeys().get(unprefixed))
+                    : this.isSafeUnprefixed('values', unprefixed, `css.properties.${property}.${unprefixed}`));
+
+                if (safe) {
+                    report({
+                        pattern: 'vendor-prefix',
+                        offset: at,
+                        length: match[2].length,
+                        suggestion: legacyDisplay
+                            ? `Replace the pre-standard ${match[2]} with display: ${legacyDisplay}`
+                            : `Use ${unprefixed}${isFunction ? '()' : ''} instead of the prefixed ${match[2]}`
+                    });
+                }
+                continue;
+            }
+
+            const key = isFunction
+                ? this.getTypeKeys().get(word)
+                : `css.properties.${property}.${word}`;
+            if (key) this.reportKey(key, at, match[2].length, isFunction ? `${match[2]}()` : match[2], report);
+        }
+    }
+
+    private checkClearfix(rule: Extract<BlockContext, { kind: 'rule' }>, report: (match: PatternMatch) => void): void {
+        const isPseudoElement = /::?(after|before)\b/i.test(rule.selector);
+        const clears = /^both\b/.test(rule.declarations.get('clear') || '');
+
+        if (isPseudoElement && clears && rule.declarations.has('content')) {
+            report({
+                pattern: 'clearfix',
+                offset: rule.offset,
+                length: rule.selector.length,
+                suggestion: 'Replace the clearfix hack with display: flow-root on the container, or use flexbox or grid'
+            });
+        }
+    }
+
+    /** Reports the feature `compatKey` belongs to, whatever its status; CodeAnalyzer decides which widely available ones are findings. */
+    private reportKey(compatKey: string, offset: number, length: number, text: string, report: (match: PatternMatch) => void): void {
+        const feature = this.baselineService.getFeatureByCompatKey(compatKey);
+        if (!feature) return;
+
+        report({
+            pattern: feature.id,
+            offset,
+            length,
+            suggestion: `${text.trim()} relies on ${feature.name}, which is ${describeStatus(feature)} (${compatKey})`
+        });
+    }
+
+    /** Exact key, or the first sub-feature for selectors like `::backdrop` that are only tracked per element. */
+    private findKey(compatKey: string): string | undefined {
+        if (this.baselineService.getFeatureByCompatKey(compatKey)) return compatKey;
+        return this.baselineService.getCompatKeys(`${compatKey}.`)[0];
+    }
+
+    private isSafeUnprefixed(kind: keyof typeof LONG_UNPREFIXED, name: string, compatKey: string | undefined): boolean {
+        if (LONG_UNPREFIXED[kind].includes(name)) return true;
+        const feature = compatKey ? this.baselineService.getFeatureByCompatKey(compatKey) : undefined;
+        return feature?.status.baseline === 'high';
+    }
+
+    /** CSS functions by name, e.g. `color-mix` → `css.types.color.color-mix`. */
+    private getTypeKeys(): Map<string, string> {
+        if (!this.typeKeys) {
+            this.typeKeys = new Map();
+            this.baselineService.getCompatKeys('css.types.')
+                .sort((a, b) => a.length - b.length)
+                .forEach(key => {
+                    const name = key.split('.').pop()!;
+                    // Sub-features such as `alpha_parameter` are not function names
+                    if (/^[a-z][a-z0-9-]*$/.test(name) && !this.typeKeys!.has(name)) {
+                        this.typeKeys!.set(name, key);
+                    }
+                });
+        }
+        return this.typeKeys;
+    }
+
+    private getUnitKeys(): Map<string, string> {
+        if (!this.unitKeys) {
+            this.unitKeys = new Map();
+            this.baselineService.getCompatKeys('css.types.length.').forEach(key => {
+                const name = key.slice('css.types.length.'.length);
+                (UNIT_GROUPS[name] || [name]).forEach(unit => this.unitKeys!.set(unit, key));
+            });
+        }
+        return this.unitKeys;
+    }
+}
+
+/** Blanks comments, keeping offsets; `//` line comments exist only in SCSS and Less. */
+function blankComments(text: string, lineComments: boolean): string {
+    const chars = text.split('');
+    let parentheses = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (ch === '"' || ch === '\'') {
+            i = skipString(text, i);
+        } else if (ch === '(') {
+            parentheses++;
+        } else if (ch === ')') {
+            parentheses = Math.max(0, parentheses - 1);
+        } else if (ch === '/' && (text[i + 1] === '*' || (text[i + 1] === '/' && lineComments && parentheses === 0))) {
+            const block = text[i + 1] === '*';
+            const end = block ? text.indexOf('*/', i + 2) : text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : block ? end + 2 : end;
+            for (let j = i; j < stop; j++) {
+                if (chars[j] !== '\n' && chars[j] !== '\r') chars[j] = ' ';
+            }
+            i = stop - 1;
+        }
+    }
+
+    return chars.join('');
+}
+
+/** Returns the index of the closing quote of the string that starts at `start`. */
+function skipString(text: string, start: number): number {
+    const quote = text[start];
+    let i = start + 1;
+    while (i < text.length && text[i] !== quote && text[i] !== '\n') {
+        if (text[i] === '\\') i++;
+        i++;
+    }
+    return i;
+}
+
+/** Returns the index of the matching `)`, so `url(a;b)` or `:is(a, b)` never split a statement. */
+function skipParentheses(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || ch === '\'') i = skipString(text, i);
+        else if (ch === '(') depth++;
+        else if (ch === ')' && --depth === 0) return i;
+        // Unbalanced: stop before the block boundary so the scanner still sees it
+        else if (ch === '{' || ch === '}') return i - 1;
+    }
+    return text.length;
+}
+
+/** Blanks string contents so quoted text never looks like a keyword. */
+function maskStrings(text: string): string {
+    let masked = '';
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '"' || text[i] === '\'') {
+            const end = skipString(text, i);
+            masked += text[i] + ' '.repeat(Math.max(Math.min(end, text.length) - i - 1, 0)) + (text[end] ?? '');
+            i = end;
+        } else {
+            masked += text[i];
+        }
+    }
+    return masked;
+}
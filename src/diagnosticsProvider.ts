@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { AnalysisResult, BaselineFeatureInfo, BaselineService, describeStatus } from './baselineService';
+import { getUnsupportedBrowsers, ResolvedTarget } from './browserslist';
+import { CodeAnalyzer, isSupportedLanguage } from './codeAnalyzer';
+import { FilePolicy, getPolicySeverity, POLICY_FILE_NAME, PolicySeverity } from './policy';
+import { BaselinePolicyProvider } from './policyProvider';
+import { BrowserTargetProvider } from './targetProvider';
+
+export const DIAGNOSTIC_SOURCE = 'Baseline';
+const CHANGE_DEBOUNCE_MS = 500;
+
+const POLICY_SEVERITIES: Record<Exclude<PolicySeverity, 'off'>, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+export class BaselineDiagnosticsProvider implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection;
+    private codeAnalyzer: CodeAnalyzer;
+    private baselineService: BaselineService;
+    private targetProvider: BrowserTargetProvider;
+    private policyProvider: BaselinePolicyProvider;
+    private pendingUpdates: Map<string, ReturnType<typeof setTimeout>>;
+    private results: Map<string, AnalysisResult>;
+    private onDidChangeResultsEmitter: vscode.EventEmitter<void>;
+    private disposables: vscode.Disposable[];
+
+    /** Fires when the analysis of an open document is updated or dropped. */
+    readonly onDidChangeResults: vscode.Event<void>;
+
+    constructor(
+        codeAnalyzer: CodeAnalyzer,
+        baselineService: BaselineService,
+        targetProvider: BrowserTargetProvider,
+        policyProvider: BaselinePolicyProvider
+    ) {
+        this.codeAnalyzer = codeAnalyzer;
+        this.baselineService = baselineService;
+        this.targetProvider = targetProvider;
+        this.policyProvider = policyProvider;
+        this.collection = vscode.languages.createDiagnosticCollection('baseline-modernizer');
+        this.pendingUpdates = new Map();
+        this.results = new Map();
+        this.onDidChangeResultsEmitter = new vscode.EventEmitter<void>();
+        this.onDidChangeResults = this.onDidChangeResultsEmitter.event;
+        this.disposables = [this.onDidChangeResultsEmitter];
+    }
+
+    register(): void {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.refresh(document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.refresh(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleRefresh(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('baseline-modernizer')) {
+                    this.refreshAll();
+                }
+            }),
+            this.targetProvider.onDidChange(() => this.refreshAll()),
+            this.policyProvider.onDidChange(() => this.refreshAll())
+        );
+
+        this.refreshAll();
+    }
+
+    getResult(uri: vscode.Uri): AnalysisResult | undefined {
+        return this.results.get(uri.toString());
+    }
+
+    refreshAll(): void {
+        if (!this.isAutoAnalysisEnabled()) {
+            this.collection.clear();
+            this.results.clear();
+            this.onDidChangeResultsEmitter.fire();
+            return;
+        }
+
+        vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+    }
+
+    refresh(document: vscode.TextDocument): void {
+        if (!this.isAutoAnalysisEnabled() || !isSupportedLanguage(document.languageId)) {
+            return;
+        }
+
+        const result = this.codeAnalyzer.analyze(
+            document.getText(),
+            vscode.workspace.asRelativePath(document.uri),
+            document.languageId
+        );
+
+        this.results.set(document.uri.toString(), result);
+        this.collection.set(document.uri, this.createDiagnostics(
+            result,
+            this.targetProvider.getTarget(document.uri),
+            this.policyProvider.getPolicy(document.uri)
+        ));
+        this.onDidChangeResultsEmitter.fire();
+    }
+
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (!isSupportedLanguage(document.languageId)) return;
+
+        const key = document.uri.toString();
+        const pending = this.pendingUpdates.get(key);
+        if (pending) clearTimeout(pending);
+
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.refresh(document);
+        }, CHANGE_DEBOUNCE_MS));
+    }
+
+    private clear(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingUpdates.get(key);
+        if (pending) clearTimeout(pending);
+
+        this.pendingUpdates.delete(key);
+        this.results.delete(key);
+        this.collection.delete(uri);
+        this.onDidChangeResultsEmitter.fire();
+    }
+
+    private createDiagnostics(result: AnalysisResult, browserTarget: ResolvedTarget | undefined, policy: FilePolicy): vscode.Diagnostic[] {
+        const target = policy.target;
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        result.patterns.forEach(pattern => {
+            const policySeverity = getPolicySeverity(policy, pattern.pattern);
+            if (policySeverity === 'off') return;
+
+            if (!this.baselineService.isLegacyPattern(pattern.pattern)) {
+                const feature = this.baselineService.resolveUsedFeatures([pattern.pattern])[0];
+                if (feature) {
+                    diagnostics.push(...this.createCompatibilityDiagnostics(pattern, feature, policy, browserTarget, policySeverity));
+                }
+                return;
+            }
+
+            const alternative = this.baselineService.getModernAlternatives(pattern.pattern)[0];
+            const feature = alternative ? this.baselineService.getFeatureInfo(alternative.feature) : undefined;
+            const status = feature ? feature.status.baseline : alternative?.baselineStatus;
+            const unsupported = feature && browserTarget ? getUnsupportedBrowsers(feature, browserTarget) : [];
+
+            // Only push hard for a rewrite when the modern replacement is within the team's target
+            const severity = policySeverity
+                ? POLICY_SEVERITIES[policySeverity]
+                : this.baselineService.meetsTarget(status, target) && unsupported.length === 0
+                    ? vscode.DiagnosticSeverity.Warning
+                    : vscode.DiagnosticSeverity.Information;
+            const targetNote = unsupported.length > 0 ? `; not supported by ${unsupported.join(', ')}` : '';
+            const policyNote = policy.deny.has(pattern.pattern) ? ` Denied by ${POLICY_FILE_NAME}.` : '';
+
+            pattern.locations.forEach(location => {
+                const message = (feature
+                    ? `${location.suggestion} (${feature.name} is Baseline ${describeStatus(feature, 'short')}${targetNote})`
+                    : location.suggestion) + policyNote;
+
+                const diagnostic = new vscode.Diagnostic(this.getRange(location, pattern.pattern), message, severity);
+                diagnostic.source = DIAGNOSTIC_SOURCE;
+                diagnostic.code = feature
+                    ? { value: pattern.pattern, target: vscode.Uri.parse(this.baselineService.getFeatureUrl(feature)) }
+                    : pattern.pattern;
+                diagnostics.push(diagnostic);
+            });
+        });
+
+        return diagnostics;
+    }
+
+    /**
+     * Flags a used web feature that the project's browsers may not run: an explicit
+     * browserslist target that lacks support is an error, falling short of the policy
+     * or `targetBaseline` target is a warning. A severity from the policy file wins, and
+     * denied features are reported even when they meet the target.
+     */
+    private createCompatibilityDiagnostics(
+        pattern: AnalysisResult['patterns'][number],
+        feature: BaselineFeatureInfo,
+        policy: FilePolicy,
+        browserTarget: ResolvedTarget | undefined,
+        policySeverity: Exclude<PolicySeverity, 'off'> | undefined
+    ): vscode.Diagnostic[] {
+        const unsupported = browserTarget ? getUnsupportedBrowsers(feature, browserTarget) : [];
+        const meetsBaseline = this.baselineService.meetsTarget(feature.status.baseline, policy.target);
+        if (unsupported.length === 0 && meetsBaseline && !policySeverity) return [];
+
+        const message = unsupported.length > 0
+            ? `${feature.name} is not supported by ${unsupported.join(', ')} (from ${browserTarget!.source})`
+            : !meetsBaseline
+                ? `${feature.name} is Baseline ${describeStatus(feature, 'short')}, below the "${policy.target}" target`
+                : `${feature.name} is Baseline ${describeStatus(feature, 'short')}`;
+        const policyNote = policy.deny.has(pattern.pattern) ? ` Denied by ${POLICY_FILE_NAME}.` : '';
+        const severity = policySeverity
+            ? POLICY_SEVERITIES[policySeverity]
+            : unsupported.length > 0 ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+
+        return pattern.locations.map(location => {
+            const diagnostic = new vscode.Diagnostic(this.getRange(location, pattern.pattern), message + policyNote, severity);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = { value: pattern.pattern, target: vscode.Uri.parse(this.baselineService.getFeatureUrl(feature)) };
+            return diagnostic;
+        });
+    }
+
+    private getRange(location: AnalysisResult['patterns'][number]['locations'][number], pattern: string): vscode.Range {
+        const start = new vscode.Position(location.line - 1, location.column - 1);
+        return new vscode.Range(start, start.translate(0, location.length || pattern.length));
+    }
+
+    private isAutoAnalysisEnabled(): boolean {
+        return vscode.workspace.getConfiguration('baseline-modernizer').get<boolean>('enableAutoAnalysis', true);
+    }
+
+    dispose(): void {
+        this.pendingUpdates.forEach(pending => clearTimeout(pending));
+        this.pendingUpdates.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+}
@@ -1,18 +1,48 @@
 import * as vscode from 'vscode';
-import { BaselineService } from './baselineService';
+import { AnalysisResult, BaselineService, Suppression } from './baselineService';
+import { describeTarget } from './browserslist';
+import { BROWSER_IDS, computeBrowserSupportStats } from './browserSupport';
+import { BaselineCodeActionProvider, RECORD_FIX_COMMAND } from './codeActionProvider';
+import { CodeAnalyzer, describeSupportedLanguages, isSupportedLanguage, SUPPORTED_LANGUAGES } from './codeAnalyzer';
+import { BaselineDiagnosticsProvider } from './diagnosticsProvider';
+import { FeatureGrouping, FeatureTreeProvider, SHOW_FEATURE_DETAILS_COMMAND, UsedFeaturesTreeProvider } from './featureTree';
+import { ChangedFile, getChangedFiles, getDefaultBaseRef } from './gitDiff';
+import { BaselineHoverProvider } from './hoverProvider';
+import { migrateMetrics, MetricsStorage, validateMetricsReport } from './metricsStorage';
 import { MetricsTracker } from './metricsTracker';
+import { BaselinePolicyProvider } from './policyProvider';
+import { ProjectScanner, resolveWorkspacePath } from './projectScanner';
+import { BaselineScore } from './scoring';
+import { BaselineStatusBar, SHOW_FILE_PATTERNS_COMMAND } from './statusBar';
+import { BrowserTargetProvider } from './targetProvider';
 import { BaselineWebviewProvider } from './webviewProvider';
+import { FIX_ALL_COMMAND, WorkspaceFixer } from './workspaceFixes';
 
-export function activate(context: vscode.ExtensionContext) {
+// Flushed on deactivate, which VS Code waits for, unlike the disposal of subscriptions
+let activeMetricsStorage: MetricsStorage | undefined;
+
+export async function activate(context: vscode.ExtensionContext) {
     console.log('🚀 Baseline Modernizer Enhanced is now active!');
 
     // Initialize services
     const baselineService = new BaselineService();
     const metricsTracker = new MetricsTracker();
-    const webviewProvider = new BaselineWebviewProvider(context.extensionUri, metricsTracker, baselineService);
-
-    // Load sample data immediately for demonstration
-    metricsTracker.loadSampleData();
+    const policyProvider = new BaselinePolicyProvider();
+    const codeAnalyzer = new CodeAnalyzer(baselineService, fileName => policyProvider.getPolicy(resolveWorkspacePath(fileName)));
+    const projectScanner = new ProjectScanner();
+    const targetProvider = new BrowserTargetProvider(baselineService);
+    const diagnosticsProvider = new BaselineDiagnosticsProvider(codeAnalyzer, baselineService, targetProvider, policyProvider);
+    const webviewProvider = new BaselineWebviewProvider(context.extensionUri, metricsTracker, baselineService, targetProvider, policyProvider);
+
+    const metricsStorage = new MetricsStorage(context.workspaceState);
+    activeMetricsStorage = metricsStorage;
+
+    // Restore this workspace's progress from earlier sessions and keep it saved
+    const storedMetrics = await metricsStorage.load();
+    if (storedMetrics) {
+        metricsTracker.load(storedMetrics);
+    }
+    metricsTracker.onDidChange(() => metricsStorage.scheduleSave(metricsTracker.getMetrics()));
 
     // Register commands
     const showDashboardCommand = vscode.commands.registerCommand(
@@ -31,19 +61,18 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            // Simulate analysis with sample data
-            const fileName = activeEditor.document.fileName;
-            const issuesCount = Math.floor(Math.random() * 8) + 1;
+            const document = activeEditor.document;
+            if (!isSupportedLanguage(document.languageId)) {
+                vscode.window.showWarningMessage(`Baseline analysis supports ${describeSupportedLanguages('and')} files.`);
+                return;
+            }
 
-            metricsTracker.recordAnalysis(fileName, issuesCount, activeEditor.document.languageId);
+            const result = codeAnalyzer.analyze(document.getText(), vscode.workspace.asRelativePath(document.uri), document.languageId);
 
-            // Record some feature usage
-            const sampleFeatures = ['var', 'XMLHttpRequest', 'float', 'function'];
-            const randomFeature = sampleFeatures[Math.floor(Math.random() * sampleFeatures.length)];
-            metricsTracker.recordFeatureUsage(randomFeature);
+            metricsTracker.recordAnalysis(result);
 
             vscode.window.showInformationMessage(
-                `✅ Analysis complete! Found ${issuesCount} modernization opportunities. Check the Dashboard for details.`,
+                `✅ Analysis complete! Found ${result.issuesFound} modernization opportunities. Check the Dashboard for details.`,
                 'View Dashboard'
             ).then(selection => {
                 if (selection === 'View Dashboard') {
@@ -61,46 +90,75 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            await vscode.window.withProgress(
+            const scope = await vscode.window.showQuickPick(
+                [
+                    { label: '$(folder) Whole project', description: 'Analyze every source file and update the workspace totals', mode: 'project' as const },
+                    { label: '$(git-compare) Changed files', description: 'Diff scan of the files a branch changes', mode: 'files' as const },
+                    { label: '$(diff) Changed lines', description: 'Diff scan of findings on added or modified lines only', mode: 'lines' as const }
+                ],
+                { placeHolder: 'What should be analyzed?' }
+            );
+            if (!scope) return;
+
+            if (scope.mode !== 'project') {
+                await analyzeChangedFiles(scope.mode === 'lines', projectScanner, codeAnalyzer, metricsTracker, webviewProvider);
+                return;
+            }
+
+            const summary = await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Notification,
                     title: 'Analyzing project...',
-                    cancellable: false
+                    cancellable: true
                 },
-                async (progress) => {
-                    // Simulate project analysis
-                    const files = ['app.js', 'components/Header.js', 'styles/main.css', 'utils/api.js', 'index.html'];
+                async (progress, token) => {
+                    progress.report({ message: 'Finding source files...' });
+                    const files = await projectScanner.findFiles(token);
+                    let analyzed = 0;
+                    let issues = 0;
 
-                    for (let i = 0; i < files.length; i++) {
-                        const file = files[i];
-                        const issuesCount = Math.floor(Math.random() * 5) + 1;
+                    for (const file of files) {
+                        if (token.isCancellationRequested) break;
 
                         progress.report({
-                            increment: (100 / files.length),
-                            message: `Analyzing ${file}...`
+                            increment: 100 / files.length,
+                            message: `(${analyzed + 1}/${files.length}) ${file.relativePath}`
                         });
 
-                        metricsTracker.recordAnalysis(file, issuesCount, 
-                            file.endsWith('.js') ? 'javascript' : 
-                            file.endsWith('.css') ? 'css' : 
-                            file.endsWith('.html') ? 'html' : 'typescript'
-                        );
-
-                        // Add some random feature usage
-                        const features = ['var', 'XMLHttpRequest', 'float', 'function', '<div>', '<b><i><u>'];
-                        features.forEach(feature => {
-                            if (Math.random() > 0.5) {
-                                metricsTracker.recordFeatureUsage(feature);
-                            }
-                        });
+                        try {
+                            const text = await projectScanner.readFile(file.uri);
+                            const result = codeAnalyzer.analyze(text, file.relativePath, file.languageId);
 
-                        await new Promise(resolve => setTimeout(resolve, 500));
+                            metricsTracker.recordAnalysis(result);
+                            issues += result.issuesFound;
+                        } catch (error) {
+                            console.warn(`Skipping ${file.relativePath}:`, error);
+                        }
+                        analyzed++;
                     }
+
+                    if (!token.isCancellationRequested) {
+                        metricsTracker.retainFiles(files.map(file => file.relativePath));
+                    }
+
+                    return { analyzed, total: files.length, issues, cancelled: token.isCancellationRequested };
                 }
             );
 
+            if (summary.cancelled) {
+                vscode.window.showWarningMessage(
+                    `Project analysis cancelled after ${summary.analyzed} of ${summary.total} files (${summary.issues} issues found so far).`
+                );
+                return;
+            }
+
+            if (summary.total === 0) {
+                vscode.window.showWarningMessage(`No ${describeSupportedLanguages('or')} files found in the workspace.`);
+                return;
+            }
+
             vscode.window.showInformationMessage(
-                '🎉 Project analysis complete! View the dashboard to see comprehensive results.',
+                `🎉 Project analysis complete! Found ${summary.issues} issues in ${summary.analyzed} files. View the dashboard to see comprehensive results.`,
                 'View Dashboard', 'Generate Report'
             ).then(selection => {
                 if (selection === 'View Dashboard') {
@@ -115,7 +173,7 @@ export function activate(context: vscode.ExtensionContext) {
     const generateDocumentationCommand = vscode.commands.registerCommand(
         'baseline-modernizer.generateDocumentation',
         async () => {
-            const report = generateComprehensiveReport(metricsTracker, baselineService);
+            const report = generateComprehensiveReport(metricsTracker, baselineService, targetProvider);
 
             const doc = await vscode.workspace.openTextDocument({
                 content: report,
@@ -138,27 +196,177 @@ export function activate(context: vscode.ExtensionContext) {
             message += `📁 Files Analyzed: ${metrics.filesAnalyzed}\n`;
             message += `🔍 Issues Found: ${metrics.issuesFound}\n`;
             message += `✅ Fixes Applied: ${metrics.fixesApplied}\n`;
+            message += `🙈 Suppressed: ${metrics.suppressionsFound}\n`;
             message += `📈 Progress: ${metrics.modernizationProgress}%\n`;
+            message += `🧮 Baseline Score: ${metricsTracker.getProjectScore(baselineService).score}/100\n`;
             message += `📊 Average Issues/File: ${sessionStats.averageIssuesPerFile}`;
 
-            vscode.window.showInformationMessage(message, 'View Dashboard', 'Export Data')
+            vscode.window.showInformationMessage(message, 'View Dashboard', 'Export Data', 'Export SARIF')
                 .then(selection => {
                     if (selection === 'View Dashboard') {
                         webviewProvider.show();
                     } else if (selection === 'Export Data') {
                         exportMetricsData(metricsTracker);
+                    } else if (selection === 'Export SARIF') {
+                        vscode.commands.executeCommand('baseline-modernizer.exportSarif');
                     }
                 });
         }
     );
 
+    const exportSarifCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.exportSarif',
+        () => exportSarifData(metricsTracker, baselineService, policyProvider, context.extension.packageJSON.version)
+    );
+
+    const importMetricsCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.importMetrics',
+        () => importMetricsData(metricsTracker)
+    );
+
+    const loadSampleDataCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.loadSampleData',
+        () => {
+            metricsTracker.loadSampleData(baselineService);
+            webviewProvider.show();
+            vscode.window.showInformationMessage('🧪 Sample data added to this workspace\'s metrics. Use "Reset" on the dashboard to clear it.');
+        }
+    );
+
+    const recordFixCommand = vscode.commands.registerCommand(
+        RECORD_FIX_COMMAND,
+        (featureId: string, fileName: string, position?: { line: number; column: number }) => {
+            metricsTracker.recordFix(featureId, fileName, position);
+        }
+    );
+
+    const workspaceFixer = new WorkspaceFixer(codeAnalyzer, baselineService, projectScanner, metricsTracker);
+    const fixAllCommand = vscode.commands.registerCommand(
+        FIX_ALL_COMMAND,
+        (pattern?: string) => workspaceFixer.fixAll(pattern)
+    );
+
+    // Resolve the project's browserslist target; diagnostics refresh once it is known
+    targetProvider.register();
+
+    // Load .baseline.json policies; diagnostics and the dashboard refresh when they change
+    policyProvider.register();
+
+    // Highlight legacy patterns in open editors and the Problems panel
+    diagnosticsProvider.register();
+
+    // The active file's score, refreshed with its diagnostics
+    const statusBar = new BaselineStatusBar(codeAnalyzer, baselineService, diagnosticsProvider, policyProvider);
+    statusBar.register();
+
+    const showFilePatternsCommand = vscode.commands.registerCommand(
+        SHOW_FILE_PATTERNS_COMMAND,
+        () => statusBar.showPatterns()
+    );
+
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+        SUPPORTED_LANGUAGES.map(language => ({ language })),
+        new BaselineCodeActionProvider(diagnosticsProvider),
+        { providedCodeActionKinds: BaselineCodeActionProvider.providedCodeActionKinds }
+    );
+
+    // Baseline status and browser support of the feature under the cursor
+    const hoverProvider = vscode.languages.registerHoverProvider(
+        SUPPORTED_LANGUAGES.map(language => ({ language })),
+        new BaselineHoverProvider(baselineService, targetProvider, policyProvider)
+    );
+
+    // Activity bar views: every web feature, and the ones this workspace uses
+    const featureTree = new FeatureTreeProvider(baselineService);
+    const featureView = vscode.window.createTreeView('baseline-modernizer.features', { treeDataProvider: featureTree });
+    const usedFeaturesView = vscode.window.createTreeView('baseline-modernizer.usedFeatures', {
+        treeDataProvider: new UsedFeaturesTreeProvider(baselineService, metricsTracker)
+    });
+
+    const updateFeatureSearch = (query: string) => {
+        featureTree.setQuery(query);
+        featureView.message = featureTree.getQuery()
+            ? `${featureTree.getVisibleFeatures().length} features match "${featureTree.getQuery()}"`
+            : undefined;
+        vscode.commands.executeCommand('setContext', 'baseline-modernizer.featureSearchActive', featureTree.getQuery() !== '');
+    };
+
+    const showFeatureDetailsCommand = vscode.commands.registerCommand(
+        SHOW_FEATURE_DETAILS_COMMAND,
+        (featureId: string) => webviewProvider.showFeatureDetails(featureId)
+    );
+
+    const searchFeaturesCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.searchFeatures',
+        () => {
+            // The tree filters as the user types; Escape restores the previous search
+            const previous = featureTree.getQuery();
+            const input = vscode.window.createInputBox();
+            let accepted = false;
+            input.title = 'Search Web Features';
+            input.placeholder = 'Name, description, ID or category, e.g. "dialog" or "grid"';
+            input.value = previous;
+            input.onDidChangeValue(updateFeatureSearch);
+            input.onDidAccept(() => {
+                accepted = true;
+                input.hide();
+            });
+            input.onDidHide(() => {
+                if (!accepted) updateFeatureSearch(previous);
+                input.dispose();
+            });
+            input.show();
+        }
+    );
+
+    const clearFeatureSearchCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.clearFeatureSearch',
+        () => updateFeatureSearch('')
+    );
+
+    const setFeatureGrouping = (grouping: FeatureGrouping) => {
+        featureTree.setGrouping(grouping);
+        vscode.commands.executeCommand('setContext', 'baseline-modernizer.featureGrouping', grouping);
+    };
+    setFeatureGrouping('category');
+
+    const groupFeaturesByStatusCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.groupFeaturesByStatus',
+        () => setFeatureGrouping('status')
+    );
+
+    const groupFeaturesByCategoryCommand = vscode.commands.registerCommand(
+        'baseline-modernizer.groupFeaturesByCategory',
+        () => setFeatureGrouping('category')
+    );
+
     // Register all commands
     context.subscriptions.push(
+        metricsStorage,
+        targetProvider,
+        policyProvider,
+        diagnosticsProvider,
+        statusBar,
+        showFilePatternsCommand,
+        codeActionProvider,
+        hoverProvider,
+        featureView,
+        usedFeaturesView,
+        showFeatureDetailsCommand,
+        searchFeaturesCommand,
+        clearFeatureSearchCommand,
+        groupFeaturesByStatusCommand,
+        groupFeaturesByCategoryCommand,
+        recordFixCommand,
+        fixAllCommand,
         showDashboardCommand,
         analyzeFileCommand,
         analyzeProjectCommand,
         generateDocumentationCommand,
-        showMetricsCommand
+        showMetricsCommand,
+        exportSarifCommand,
+        importMetricsCommand,
+        loadSampleDataCommand
     );
 
     // Show welcome message
@@ -210,11 +418,24 @@ async function generateReport(metricsTracker: MetricsTracker, baselineService: B
     await vscode.window.showTextDocument(doc);
 }
 
-function generateComprehensiveReport(metricsTracker: MetricsTracker, baselineService: BaselineService): string {
+function generateComprehensiveReport(
+    metricsTracker: MetricsTracker,
+    baselineService: BaselineService,
+    targetProvider: BrowserTargetProvider
+): string {
     const metrics = metricsTracker.getMetrics();
     const mostUsed = metricsTracker.getMostUsedFeatures();
     const sessionStats = metricsTracker.getSessionStats();
+    const projectScore = metricsTracker.getProjectScore(baselineService);
     const supportedFeatures = baselineService.getAllFeatures();
+    const browsers = baselineService.getBrowsers();
+    const browserTarget = targetProvider.getTarget();
+    const minimumVersions = targetProvider.getMinimumBrowserVersions();
+    const browserSupport = computeBrowserSupportStats(supportedFeatures, minimumVersions);
+    const workspaceBrowserSupport = computeBrowserSupportStats(
+        baselineService.resolveUsedFeatures(Object.keys(metrics.featureUsage)),
+        minimumVersions
+    );
 
     const report = [
         '# 📊 Comprehensive Baseline Modernization Analysis',
@@ -228,9 +449,15 @@ function generateComprehensiveReport(metricsTracker: MetricsTracker, baselineSer
         `| Files Analyzed | ${metrics.filesAnalyzed} | ${metrics.filesAnalyzed > 0 ? '✅' : '⏳'} |`,
         `| Issues Found | ${metrics.issuesFound} | ${metrics.issuesFound === 0 ? '🎉' : '🔍'} |`,
         `| Fixes Applied | ${metrics.fixesApplied} | ${metrics.fixesApplied > 0 ? '✅' : '⏳'} |`,
+        `| Suppressed Findings | ${metrics.suppressionsFound} | ${metrics.suppressionsFound === 0 ? '✅' : '🙈'} |`,
+        `| Baseline Score | ${projectScore.score}/100 | ${projectScore.score >= 90 ? '🎉' : projectScore.score >= 60 ? '📈' : '⚠️'} |`,
         `| Progress | ${metrics.modernizationProgress}% | ${metrics.modernizationProgress > 80 ? '🎉' : metrics.modernizationProgress > 50 ? '📈' : '📊'} |`,
         `| Avg Issues/File | ${sessionStats.averageIssuesPerFile} | ${sessionStats.averageIssuesPerFile < 3 ? '✅' : '⚠️'} |\n`,
 
+        ...formatScoreBreakdown(projectScore),
+
+        ...formatSuppressions(metricsTracker.getSuppressions()),
+
         '## 🔧 Most Used Legacy Patterns',
         mostUsed.length > 0 ? mostUsed.map((feature, index) => 
             `${index + 1}. **${feature.feature}** - ${feature.count} occurrences`
@@ -256,12 +483,17 @@ function generateComprehensiveReport(metricsTracker: MetricsTracker, baselineSer
         '',
 
         '## 🌐 Browser Support Matrix',
-        '| Browser | Supported Features | Percentage |',
-        '|---------|-------------------|------------|',
-        '| Chrome | 850+ | 82% |',
-        '| Firefox | 920+ | 77% |',
-        '| Safari | 850+ | 71% |',
-        '| Edge | 940+ | 78% |',
+        browserTarget
+            ? `**Target** (${browserTarget.source}): ${describeTarget(browserTarget, browsers)}\n`
+            : '*No browserslist configuration found; showing the latest browser versions.*\n',
+        '| Browser | Minimum Version | Supported Features | Percentage | Your Code |',
+        '|---------|-----------------|--------------------|------------|-----------|',
+        BROWSER_IDS.map(browser => {
+            const stats = browserSupport[browser];
+            const workspace = workspaceBrowserSupport[browser];
+            const yourCode = workspace.total > 0 ? `${workspace.percentage}% of ${workspace.total} used` : 'n/a';
+            return `| ${browsers[browser].name} | ${stats.minimumVersion} | ${stats.supported}/${stats.total} | ${stats.percentage}% | ${yourCode} |`;
+        }).join('\n'),
         '',
 
         '## 🚀 Next Steps',
@@ -279,6 +511,129 @@ function generateComprehensiveReport(metricsTracker: MetricsTracker, baselineSer
     return report;
 }
 
+/**
+ * Diff scan: analyzes only the files changed against a base ref chosen by the user,
+ * optionally keeping only findings on changed lines. Results are recorded apart from
+ * the project totals.
+ */
+async function analyzeChangedFiles(
+    changedLinesOnly: boolean,
+    projectScanner: ProjectScanner,
+    codeAnalyzer: CodeAnalyzer,
+    metricsTracker: MetricsTracker,
+    webviewProvider: BaselineWebviewProvider
+) {
+    // The git CLI needs folders on the local disk
+    const folders = (vscode.workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'file');
+    if (folders.length === 0) {
+        vscode.window.showWarningMessage('Diff scans need a workspace folder on the local disk.');
+        return;
+    }
+
+    const defaultBase = await getDefaultBaseRef(folders[0].uri.fsPath);
+    const baseRef = (await vscode.window.showInputBox({
+        title: changedLinesOnly ? 'Diff Scan: Changed Lines' : 'Diff Scan: Changed Files',
+        prompt: 'Branch, tag or commit to compare against; changes since its merge base with HEAD are scanned',
+        value: defaultBase || 'main',
+        validateInput: value => value.trim() ? undefined : 'Enter a git ref'
+    }))?.trim();
+    if (!baseRef) return;
+
+    const outcome = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `Diff scan against ${baseRef}...`,
+            cancellable: true
+        },
+        async (progress, token) => {
+            progress.report({ message: 'Reading git changes...' });
+            const changed = new Map<string, ChangedFile>();
+            const errors: string[] = [];
+
+            for (const folder of folders) {
+                try {
+                    const diff = await getChangedFiles(folder.uri.fsPath, baseRef, changedLinesOnly);
+                    diff.files.forEach(file => changed.set(vscode.Uri.joinPath(folder.uri, file.path).toString(), file));
+                } catch (error) {
+                    errors.push(error instanceof Error ? error.message : String(error));
+                }
+            }
+            if (errors.length === folders.length) return { errors };
+
+            // The project scan applies the usual excludes and .gitignore rules to the changed files
+            const files = (await projectScanner.findFiles(token)).filter(file => changed.has(file.uri.toString()));
+            const results: AnalysisResult[] = [];
+
+            for (const file of files) {
+                if (token.isCancellationRequested) return { errors, cancelled: true };
+                progress.report({ increment: 100 / files.length, message: file.relativePath });
+
+                try {
+                    const text = await projectScanner.readFile(file.uri);
+                    results.push(codeAnalyzer.analyze(text, file.relativePath, file.languageId, changed.get(file.uri.toString())!.changedLines));
+                } catch (error) {
+                    console.warn(`Skipping ${file.relativePath}:`, error);
+                }
+            }
+
+            return { errors, scan: metricsTracker.recordDiffScan(baseRef, changedLinesOnly, results) };
+        }
+    );
+
+    if (!outcome.scan) {
+        if (!outcome.cancelled) vscode.window.showErrorMessage(`Diff scan failed: ${outcome.errors[0]}`);
+        return;
+    }
+    outcome.errors.forEach(error => vscode.window.showWarningMessage(`Diff scan skipped a folder: ${error}`));
+
+    const scope = changedLinesOnly ? 'on changed lines' : 'in changed files';
+    vscode.window.showInformationMessage(
+        `🔀 Diff scan against ${baseRef}: ${outcome.scan.issuesFound} issues ${scope} across ${outcome.scan.filesScanned} files. Project totals are unchanged.`,
+        'View Dashboard'
+    ).then(selection => {
+        if (selection === 'View Dashboard') {
+            webviewProvider.show();
+        }
+    });
+}
+
+/** The report section that shows the points each pattern costs the project's score, and why. */
+function formatScoreBreakdown(projectScore: BaselineScore): string[] {
+    return [
+        '## 🧮 Score Breakdown',
+        projectScore.breakdown.length > 0
+            ? 'The score halves for every 5 weighted uses per 100 lines; the points lost are split between the patterns by their share of the weight.\n'
+            : '*No patterns cost points.*',
+        ...(projectScore.breakdown.length > 0 ? [
+            '| Pattern | Uses | Weight | Reason | Points |',
+            '|---------|------|--------|--------|--------|',
+            ...projectScore.breakdown.map(cost =>
+                `| \`${cost.pattern.replace(/\|/g, '\\|')}\` | ${cost.count} | ${cost.weight} | ${cost.reason} | −${cost.points} |`)
+        ] : []),
+        ''
+    ];
+}
+
+/** The report section that lets reviewers audit every baseline-ignore comment. */
+function formatSuppressions(suppressions: Array<Suppression & { fileName: string }>): string[] {
+    const escape = (text: string) => text.replace(/\|/g, '\\|');
+
+    return [
+        '## 🙈 Suppressions',
+        suppressions.length > 0
+            ? `${suppressions.length} findings are silenced by \`baseline-ignore\` comments and excluded from the issue count.\n`
+            : '*No findings are suppressed.*',
+        ...(suppressions.length > 0 ? [
+            '| Location | Pattern | Justification |',
+            '|----------|---------|---------------|',
+            ...suppressions.map(suppression =>
+                `| ${escape(suppression.fileName)}:${suppression.line}:${suppression.column} | \`${escape(suppression.pattern)}\` | ` +
+                `${suppression.justification ? escape(suppression.justification) : '⚠️ *No justification given*'} |`)
+        ] : []),
+        ''
+    ];
+}
+
 async function exportMetricsData(metricsTracker: MetricsTracker) {
     const exportData = metricsTracker.exportMetrics();
 
@@ -294,6 +649,91 @@ async function exportMetricsData(metricsTracker: MetricsTracker) {
     );
 }
 
-export function deactivate() {
+async function exportSarifData(
+    metricsTracker: MetricsTracker,
+    baselineService: BaselineService,
+    policyProvider: BaselinePolicyProvider,
+    version: string
+) {
+    if (metricsTracker.getFileAnalyses().length === 0) {
+        vscode.window.showWarningMessage('No analysis results to export yet. Run "Analyze File" or "Analyze Project" first.');
+        return;
+    }
+
+    // Results use workspace-relative paths, so the log belongs at the root the paths resolve against
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const fileUri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'baseline.sarif') : undefined,
+        saveLabel: 'Export SARIF',
+        filters: { 'SARIF Logs': ['sarif', 'json'] }
+    });
+    if (!fileUri) return;
+
+    const log = metricsTracker.exportSarif(
+        baselineService,
+        policyProvider.getPolicy().target,
+        version,
+        fileName => policyProvider.getPolicy(resolveWorkspacePath(fileName))
+    );
+    try {
+        await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(log + '\n'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not write ${vscode.workspace.asRelativePath(fileUri)}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const selection = await vscode.window.showInformationMessage(
+        `📤 Exported ${vscode.workspace.asRelativePath(fileUri)} for code scanning tools.`,
+        'Open File'
+    );
+    if (selection === 'Open File') {
+        await vscode.window.showTextDocument(fileUri);
+    }
+}
+
+async function importMetricsData(metricsTracker: MetricsTracker) {
+    const [fileUri] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Import Metrics',
+        filters: { 'Metrics Reports': ['json'] }
+    }) || [];
+    if (!fileUri) return;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(fileUri)));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read ${vscode.workspace.asRelativePath(fileUri)}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const errors = validateMetricsReport(data);
+    const imported = errors.length === 0 ? migrateMetrics(data) : undefined;
+    if (!imported) {
+        const details = errors.slice(0, 3).join(' ') + (errors.length > 3 ? ` (${errors.length - 3} more)` : '');
+        vscode.window.showErrorMessage(`This file is not a Baseline metrics report. ${details}`);
+        return;
+    }
+
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: 'Merge', description: 'Add the report\'s analyses and fixes to the current metrics', mode: 'merge' as const },
+            { label: 'Replace', description: 'Discard the current metrics and use the report instead', mode: 'replace' as const }
+        ],
+        { placeHolder: `Import ${imported.analysisHistory.length} analyses and ${imported.fixHistory.length} fixes` }
+    );
+    if (!mode) return;
+
+    const added = metricsTracker.importMetrics(imported, mode.mode);
+    vscode.window.showInformationMessage(
+        mode.mode === 'merge'
+            ? `📥 Merged ${added.analyses} new analyses and ${added.fixes} new fixes; entries already present were skipped.`
+            : `📥 Replaced metrics with ${added.analyses} analyses and ${added.fixes} fixes from the report.`
+    );
+}
+
+export function deactivate(): Promise<void> | undefined {
     console.log('👋 Baseline Modernizer Enhanced deactivated');
+    // Saves are debounced, so the latest changes may not be written yet
+    return activeMetricsStorage?.flush();
 }
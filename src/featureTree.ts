@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { BaselineFeatureInfo, BaselineService, describeStatus } from './baselineService';
+import { MetricsTracker } from './metricsTracker';
+import { resolveWorkspacePath } from './projectScanner';
+
+export const SHOW_FEATURE_DETAILS_COMMAND = 'baseline-modernizer.showFeatureDetails';
+
+export type FeatureGrouping = 'category' | 'status';
+
+type BaselineStatus = BaselineFeatureInfo['status']['baseline'];
+
+type FeatureTreeNode =
+    | { kind: 'folder'; id: string; label: string; icon?: vscode.ThemeIcon; features: BaselineFeatureInfo[]; byGroup: boolean }
+    | { kind: 'feature'; id: string; feature: BaselineFeatureInfo };
+
+type UsageTreeNode =
+    | { kind: 'pattern'; pattern: string; count: number; files: Map<string, UsageLocation[]> }
+    | { kind: 'file'; pattern: string; fileName: string; locations: UsageLocation[] }
+    | { kind: 'location'; pattern: string; fileName: string; location: UsageLocation };
+
+type UsageLocation = { line: number; column: number; length?: number; suggestion: string };
+
+const STATUS_GROUPS: Array<{ status: BaselineStatus; label: string; icon: vscode.ThemeIcon }> = [
+    { status: 'high', label: 'Widely available', icon: new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed')) },
+    { status: 'low', label: 'Newly available', icon: new vscode.ThemeIcon('star-full', new vscode.ThemeColor('editorInfo.foreground')) },
+    { status: false, label: 'Limited availability', icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('editorWarning.foreground')) }
+];
+
+function getStatusGroup(status: BaselineStatus) {
+    return STATUS_GROUPS.find(group => group.status === (status || false))!;
+}
+
+const byName = (a: BaselineFeatureInfo, b: BaselineFeatureInfo) => a.name.localeCompare(b.name);
+
+/**
+ * Every web feature known to the Baseline data, grouped by category and web-features
+ * group or by Baseline status. A search narrows the tree with `searchFeatures`.
+ */
+export class FeatureTreeProvider implements vscode.TreeDataProvider<FeatureTreeNode> {
+    private baselineService: BaselineService;
+    private grouping: FeatureGrouping;
+    private query: string;
+    private onDidChangeTreeDataEmitter: vscode.EventEmitter<void>;
+
+    readonly onDidChangeTreeData: vscode.Event<void>;
+
+    constructor(baselineService: BaselineService) {
+        this.baselineService = baselineService;
+        this.grouping = 'category';
+        this.query = '';
+        this.onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+        this.onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+    }
+
+    getGrouping(): FeatureGrouping {
+        return this.grouping;
+    }
+
+    setGrouping(grouping: FeatureGrouping): void {
+        this.grouping = grouping;
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getQuery(): string {
+        return this.query;
+    }
+
+    /** Filters the tree to matching features; an empty query shows everything again. */
+    setQuery(query: string): void {
+        this.query = query.trim();
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    /** The features the current search shows. */
+    getVisibleFeatures(): BaselineFeatureInfo[] {
+        return this.query ? this.baselineService.searchFeatures(this.query) : this.baselineService.getAllFeatures();
+    }
+
+    getTreeItem(node: FeatureTreeNode): vscode.TreeItem {
+        if (node.kind === 'feature') {
+            const { feature } = node;
+            const item = new vscode.TreeItem(feature.name, vscode.TreeItemCollapsibleState.None);
+            item.id = node.id;
+            item.description = describeStatus(feature, 'label');
+            item.tooltip = `${feature.name} · ${describeStatus(feature, 'label')}\n\n${feature.description}`;
+            item.iconPath = getStatusGroup(feature.status.baseline).icon;
+            item.contextValue = 'feature';
+            item.command = { command: SHOW_FEATURE_DETAILS_COMMAND, title: 'Show Feature Details', arguments: [feature.id] };
+            return item;
+        }
+
+        // Search results are few enough to show expanded
+        const item = new vscode.TreeItem(
+            node.label,
+            this.query ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = node.id;
+        item.description = `${node.features.length}`;
+        item.iconPath = node.icon;
+        return item;
+    }
+
+    getChildren(node?: FeatureTreeNode): FeatureTreeNode[] {
+        // The search is part of the IDs so folders pick up the expansion state for the current results
+        const prefix = `${this.grouping}:${this.query}`;
+
+        if (!node) {
+            const features = this.getVisibleFeatures();
+            if (this.grouping === 'status') {
+                return STATUS_GROUPS
+                    .map(group => ({
+                        kind: 'folder' as const,
+                        id: `${prefix}/${group.status}`,
+                        label: group.label,
+                        icon: group.icon,
+                        features: features.filter(feature => (feature.status.baseline || false) === group.status),
+                        byGroup: false
+                    }))
+                    .filter(folder => folder.features.length > 0);
+            }
+
+            return this.groupBy(features, feature => feature.category)
+                .map(([category, members]) => ({ kind: 'folder', id: `${prefix}/${category}`, label: category, features: members, byGroup: true }));
+        }
+
+        if (node.kind === 'feature') return [];
+
+        if (node.byGroup) {
+            return this.groupBy(node.features, feature => this.baselineService.getGroupName(feature.group))
+                .map(([group, members]) => ({ kind: 'folder', id: `${node.id}/${group}`, label: group, features: members, byGroup: false }));
+        }
+
+        return [...node.features].sort(byName).map(feature => ({ kind: 'feature', id: `${node.id}/${feature.id}`, feature }));
+    }
+
+    private groupBy(features: BaselineFeatureInfo[], keyOf: (feature: BaselineFeatureInfo) => string): Array<[string, BaselineFeatureInfo[]]> {
+        const groups = new Map<string, BaselineFeatureInfo[]>();
+        features.forEach(feature => {
+            const key = keyOf(feature);
+            const members = groups.get(key);
+            if (members) members.push(feature);
+            else groups.set(key, [feature]);
+        });
+        return Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+    }
+}
+
+/**
+ * The legacy patterns and web features found by the latest analysis of each file, most
+ * used first, with the files and locations that use them.
+ */
+export class UsedFeaturesTreeProvider implements vscode.TreeDataProvider<UsageTreeNode> {
+    private baselineService: BaselineService;
+    private metricsTracker: MetricsTracker;
+    private onDidChangeTreeDataEmitter: vscode.EventEmitter<void>;
+
+    readonly onDidChangeTreeData: vscode.Event<void>;
+
+    constructor(baselineService: BaselineService, metricsTracker: MetricsTracker) {
+        this.baselineService = baselineService;
+        this.metricsTracker = metricsTracker;
+        this.onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+        this.onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+        this.metricsTracker.onDidChange(() => this.onDidChangeTreeDataEmitter.fire());
+    }
+
+    getTreeItem(node: UsageTreeNode): vscode.TreeItem {
+        if (node.kind === 'pattern') {
+            const legacy = this.baselineService.isLegacyPattern(node.pattern);
+            const feature = legacy ? undefined : this.baselineService.getFeatureInfo(node.pattern);
+
+            const item = new vscode.TreeItem(feature ? feature.name : node.pattern, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `pattern:${node.pattern}`;
+            item.description = `${node.count} use${node.count === 1 ? '' : 's'} · ${feature ? describeStatus(feature, 'label') : 'legacy pattern'}`;
+            item.iconPath = feature ? getStatusGroup(feature.status.baseline).icon : new vscode.ThemeIcon('history');
+            item.contextValue = 'usedFeature';
+            item.command = { command: SHOW_FEATURE_DETAILS_COMMAND, title: 'Show Feature Details', arguments: [node.pattern] };
+            return item;
+        }
+
+        if (node.kind === 'file') {
+            const item = new vscode.TreeItem(node.fileName, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `pattern:${node.pattern}/${node.fileName}`;
+            item.resourceUri = resolveWorkspacePath(node.fileName);
+            item.description = `${node.locations.length}`;
+            item.iconPath = vscode.ThemeIcon.File;
+            return item;
+        }
+
+        const { location } = node;
+        const item = new vscode.TreeItem(`Line ${location.line}, column ${location.column}`, vscode.TreeItemCollapsibleState.None);
+        item.id = `pattern:${node.pattern}/${node.fileName}:${location.line}:${location.column}`;
+        item.description = location.suggestion;
+        item.tooltip = location.suggestion;
+
+        const uri = resolveWorkspacePath(node.fileName);
+        if (uri) {
+            const start = new vscode.Position(location.line - 1, location.column - 1);
+            const end = start.translate(0, location.length || 0);
+            item.command = { command: 'vscode.open', title: 'Go to Location', arguments: [uri, { selection: new vscode.Range(start, end) }] };
+        }
+        return item;
+    }
+
+    getChildren(node?: UsageTreeNode): UsageTreeNode[] {
+        if (!node) return this.collectUsage();
+        if (node.kind === 'pattern') {
+            return Array.from(node.files.entries())
+                .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+                .map(([fileName, locations]) => ({ kind: 'file', pattern: node.pattern, fileName, locations }));
+        }
+        if (node.kind === 'file') {
+            return node.locations.map(location => ({ kind: 'location', pattern: node.pattern, fileName: node.fileName, location }));
+        }
+        return [];
+    }
+
+    private collectUsage(): UsageTreeNode[] {
+        const usage = new Map<string, Map<string, UsageLocation[]>>();
+
+        this.metricsTracker.getFileAnalyses().forEach(file => {
+            file.patterns.forEach(pattern => {
+                const files = usage.get(pattern.pattern) || new Map<string, UsageLocation[]>();
+                files.set(file.fileName, [...(files.get(file.fileName) || []), ...pattern.locations]);
+                usage.set(pattern.pattern, files);
+            });
+        });
+
+        return Array.from(usage.entries())
+            .map(([pattern, files]) => ({
+                kind: 'pattern' as const,
+                pattern,
+                count: Array.from(files.values()).reduce((total, locations) => total + locations.length, 0),
+                files
+            }))
+            .sort((a, b) => b.count - a.count || a.pattern.localeCompare(b.pattern));
+    }
+}
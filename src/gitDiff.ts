@@ -0,0 +1,115 @@
+import { execFile } from 'child_process';
+
+/** A file that differs from the base ref, as reported by `git diff` or as an untracked file. */
+export interface ChangedFile {
+    // Relative to the directory the diff was taken in, with forward slashes
+    path: string;
+    // 1-based lines added or modified since the base; undefined when the whole file is new
+    changedLines?: Set<number>;
+}
+
+export interface DiffScope {
+    baseRef: string;
+    mergeBase: string;
+    files: ChangedFile[];
+}
+
+// Branches tried, in order, when the remote's default branch is unknown
+const FALLBACK_BASE_REFS = ['main', 'master'];
+
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+function git(directory: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        // Paths with non-ASCII characters are printed as-is rather than octal-escaped
+        execFile('git', ['-c', 'core.quotepath=off', ...args], { cwd: directory, maxBuffer: MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+            if (error) {
+                const detail = stderr.trim().split('\n')[0] || error.message;
+                reject(new Error(`git ${args[0]} failed in ${directory}: ${detail}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * The branch a feature branch most likely started from: the remote's default branch
+ * when `origin/HEAD` is set, otherwise the first of `main` and `master` that exists.
+ */
+export async function getDefaultBaseRef(directory: string): Promise<string | undefined> {
+    try {
+        return (await git(directory, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'])).trim();
+    } catch {
+        for (const ref of FALLBACK_BASE_REFS) {
+            try {
+                await git(directory, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+                return ref;
+            } catch {
+                // Try the next candidate
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Lists the files below `directory` that were added, copied, modified or renamed since
+ * the merge base of `baseRef` and HEAD, including uncommitted changes and untracked
+ * files that are not ignored. With `includeLines`, each modified file also lists its
+ * changed lines, read from a zero-context diff.
+ */
+export async function getChangedFiles(directory: string, baseRef: string, includeLines: boolean): Promise<DiffScope> {
+    const mergeBase = (await git(directory, ['merge-base', baseRef, 'HEAD'])).trim();
+
+    const [diffOutput, untrackedOutput] = await Promise.all([
+        includeLines
+            ? git(directory, ['diff', '--relative', '--diff-filter=ACMR', '--unified=0', '--no-color', '--no-ext-diff', mergeBase])
+            : git(directory, ['diff', '--relative', '--diff-filter=ACMR', '--name-only', '-z', mergeBase]),
+        git(directory, ['ls-files', '--others', '--exclude-standard', '-z'])
+    ]);
+
+    const files = new Map<string, ChangedFile>();
+    if (includeLines) {
+        parseChangedLines(diffOutput).forEach((lines, path) => files.set(path, { path, changedLines: lines }));
+    } else {
+        diffOutput.split('\0').filter(Boolean).forEach(path => files.set(path, { path }));
+    }
+    untrackedOutput.split('\0').filter(Boolean).forEach(path => files.set(path, { path }));
+
+    return {
+        baseRef,
+        mergeBase,
+        files: Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path))
+    };
+}
+
+/** Reads the new-side line ranges of every hunk in a unified diff, keyed by file path. */
+function parseChangedLines(diff: string): Map<string, Set<number>> {
+    const files = new Map<string, Set<number>>();
+    let current: Set<number> | undefined;
+
+    diff.split('\n').forEach(line => {
+        if (line.startsWith('+++ ')) {
+            const path = unquote(line.slice(4)).replace(/^b\//, '');
+            current = new Set();
+            files.set(path, current);
+            return;
+        }
+
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (hunk && current) {
+            const start = Number(hunk[1]);
+            const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+            for (let i = 0; i < count; i++) current.add(start + i);
+        }
+    });
+
+    return files;
+}
+
+/** Strips the C-style quoting git applies to paths with special characters. */
+function unquote(path: string): string {
+    if (!path.startsWith('"') || !path.endsWith('"')) return path;
+    return path.slice(1, -1).replace(/\\(["\\tn])/g, (_, ch: string) => ch === 't' ? '\t' : ch === 'n' ? '\n' : ch);
+}
@@ -0,0 +1,120 @@
+interface IgnoreRule {
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Minimal .gitignore implementation: supports comments, negation, anchored and
+ * directory-only patterns, and the `*`, `?` and `**` wildcards.
+ */
+export class GitignoreFilter {
+    private rules: IgnoreRule[] = [];
+
+    addFile(baseDirectory: string, content: string): void {
+        const base = baseDirectory.replace(/^\/+|\/+$/g, '');
+
+        content.split(/\r?\n/).forEach(rawLine => {
+            let line = rawLine.replace(/(?<!\\)\s+$/, '');
+            if (!line || line.startsWith('#')) return;
+
+            let negate = false;
+            if (line.startsWith('!')) {
+                negate = true;
+                line = line.slice(1);
+            } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+                line = line.slice(1);
+            }
+
+            const directoryOnly = line.endsWith('/');
+            line = line.replace(/\/+$/, '');
+            if (!line) return;
+
+            const anchored = line.includes('/');
+            line = line.replace(/^\/+/, '');
+
+            const body = globToRegex(line);
+            this.rules.push({
+                base,
+                regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`),
+                negate,
+                directoryOnly
+            });
+        });
+    }
+
+    isIgnored(relativePath: string): boolean {
+        const segments = relativePath.split('/');
+
+        // A file inside an ignored directory can never be re-included, so check each ancestor first
+        for (let i = 1; i <= segments.length; i++) {
+            const candidate = segments.slice(0, i).join('/');
+            if (this.matches(candidate, i < segments.length)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private matches(path: string, isDirectory: boolean): boolean {
+        let ignored = false;
+
+        for (const rule of this.rules) {
+            if (rule.directoryOnly && !isDirectory) continue;
+
+            let local = path;
+            if (rule.base) {
+                if (!path.startsWith(rule.base + '/')) continue;
+                local = path.slice(rule.base.length + 1);
+            }
+
+            if (rule.regex.test(local)) {
+                ignored = !rule.negate;
+            }
+        }
+
+        return ignored;
+    }
+}
+
+/** Translates a gitignore-style glob into a regular expression source without anchors. */
+export function globToRegex(glob: string): string {
+    let regex = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const ch = glob[i];
+        if (glob.startsWith('**/', i)) {
+            regex += '(?:.*/)?';
+            i += 3;
+        } else if (glob.startsWith('**', i)) {
+            regex += '.*';
+            i += 2;
+        } else if (ch === '*') {
+            regex += '[^/]*';
+            i++;
+        } else if (ch === '?') {
+            regex += '[^/]';
+            i++;
+        } else if (ch === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                regex += '\\[';
+                i++;
+            } else {
+                regex += '[' + glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = end + 1;
+            }
+        } else if (ch === '\\' && i + 1 < glob.length) {
+            regex += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i += 2;
+        } else {
+            regex += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i++;
+        }
+    }
+
+    return regex;
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { BaselineFeatureInfo, BaselineService, ModernAlternative, PatternMatch } from './baselineService';
+import { getUnsupportedBrowsers } from './browserslist';
+import { BROWSER_IDS } from './browserSupport';
+import { CodeAnalyzer } from './codeAnalyzer';
+import { BaselinePolicyProvider } from './policyProvider';
+import { BrowserTargetProvider } from './targetProvider';
+
+const STATUS_BADGES: Record<string, string> = {
+    high: '✅ Baseline widely available',
+    low: '🆕 Baseline newly available',
+    false: '⚠️ Limited availability'
+};
+
+const EXAMPLE_LANGUAGES: Record<string, string> = { CSS: 'css', HTML: 'html', JavaScript: 'javascript' };
+
+/**
+ * Shows the Baseline status, availability dates and per-browser support of the web
+ * feature or legacy pattern under the cursor, with the modern alternative's example
+ * and caveats. Widely available features are described too, so any detected API,
+ * property or element can be looked up. Controlled by `showBaselineStatus`.
+ */
+export class BaselineHoverProvider implements vscode.HoverProvider {
+    private codeAnalyzer: CodeAnalyzer;
+    private baselineService: BaselineService;
+    private targetProvider: BrowserTargetProvider;
+    private policyProvider: BaselinePolicyProvider;
+    // Matches of the last hovered document version, since hovers tend to come in runs
+    private cache?: { uri: string; version: number; matches: PatternMatch[] };
+
+    constructor(baselineService: BaselineService, targetProvider: BrowserTargetProvider, policyProvider: BaselinePolicyProvider) {
+        this.baselineService = baselineService;
+        this.targetProvider = targetProvider;
+        this.policyProvider = policyProvider;
+        this.codeAnalyzer = new CodeAnalyzer(baselineService);
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        if (!vscode.workspace.getConfiguration('baseline-modernizer').get<boolean>('showBaselineStatus', true)) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        // The narrowest match is the most specific one, e.g. the tag name inside a match spanning the whole tag
+        const matches = this.getMatches(document)
+            .filter(match => match.offset <= offset && offset < match.offset + match.length)
+            .sort((a, b) => a.length - b.length)
+            .filter((match, index, all) => all.findIndex(other => other.pattern === match.pattern) === index);
+        if (matches.length === 0) return undefined;
+
+        const sections = matches
+            .map(match => this.describeMatch(match, document.uri))
+            .filter((section): section is string => section !== undefined);
+        if (sections.length === 0) return undefined;
+
+        const content = new vscode.MarkdownString(sections.join('\n\n---\n\n'));
+        const range = new vscode.Range(document.positionAt(matches[0].offset), document.positionAt(matches[0].offset + matches[0].length));
+        return new vscode.Hover(content, range);
+    }
+
+    private getMatches(document: vscode.TextDocument): PatternMatch[] {
+        const uri = document.uri.toString();
+        if (this.cache?.uri !== uri || this.cache.version !== document.version) {
+            this.cache = { uri, version: document.version, matches: this.codeAnalyzer.findMatches(document.getText(), document.languageId) };
+        }
+        return this.cache.matches;
+    }
+
+    private describeMatch(match: PatternMatch, uri: vscode.Uri): string | undefined {
+        if (this.baselineService.isLegacyPattern(match.pattern)) {
+            const alternatives = this.baselineService.getModernAlternatives(match.pattern);
+            const feature = alternatives[0] ? this.baselineService.getFeatureInfo(alternatives[0].feature) : undefined;
+
+            return [
+                `**${escape(match.suggestion)}**`,
+                ...alternatives.map(alternative => this.describeAlternative(alternative)),
+                ...(feature ? [this.describeFeature(feature, uri)] : [])
+            ].join('\n\n');
+        }
+
+        const feature = this.baselineService.getFeatureInfo(match.pattern);
+        if (!feature) return undefined;
+
+        const alternatives = this.baselineService.getAlternativesUsing(feature.id)
+            .filter((alternative, index, all) => all.findIndex(other => other.replacement === alternative.replacement) === index);
+        return [this.describeFeature(feature, uri), ...alternatives.map(alternative => this.describeAlternative(alternative))].join('\n\n');
+    }
+
+    private describeFeature(feature: BaselineFeatureInfo, uri: vscode.Uri): string {
+        const { baseline, baseline_low_date: lowDate, baseline_high_date: highDate } = feature.status;
+        const dates = [
+            lowDate ? `Newly available since ${lowDate}` : undefined,
+            highDate ? `widely available since ${highDate}` : undefined
+        ].filter(Boolean).join(', ');
+
+        const lines = [
+            `### ${escape(feature.name)}`,
+            `${STATUS_BADGES[String(baseline ?? false)]}${dates ? ` · ${dates}` : ''}`,
+            escape(feature.description),
+            this.describeTargets(feature, uri),
+            this.describeBrowsers(feature),
+            `[More about ${escape(feature.name)}](${this.baselineService.getFeatureUrl(feature)})`
+        ];
+        return lines.filter(Boolean).join('\n\n');
+    }
+
+    /** Whether the feature falls short of the policy's Baseline target or the browserslist browsers. */
+    private describeTargets(feature: BaselineFeatureInfo, uri: vscode.Uri): string | undefined {
+        const policy = this.policyProvider.getPolicy(uri);
+        const browserTarget = this.targetProvider.getTarget(uri);
+        const unsupported = browserTarget ? getUnsupportedBrowsers(feature, browserTarget) : [];
+
+        const notes = [
+            this.baselineService.meetsTarget(feature.status.baseline, policy.target) ? undefined : `below the "${policy.target}" Baseline target`,
+            unsupported.length > 0 ? `not supported by ${unsupported.join(', ')} (from ${browserTarget!.source})` : undefined
+        ].filter(Boolean);
+        return notes.length > 0 ? `🎯 This project: ${notes.join('; ')}` : undefined;
+    }
+
+    private describeBrowsers(feature: BaselineFeatureInfo): string | undefined {
+        const details = feature.browserDetails;
+        if (!details) return undefined;
+
+        const browsers = this.baselineService.getBrowsers();
+        const rows = BROWSER_IDS
+            .filter(id => details[id])
+            .map(id => {
+                const detail = details[id]!;
+                const support = detail.status === 'unsupported' ? '❌ Not supported' : `✅ ${detail.version}`;
+                return `| ${browsers[id].icon} ${browsers[id].name} | ${support} | ${detail.since || ''} |`;
+            });
+
+        return ['| Browser | Since version | Released |', '| --- | --- | --- |', ...rows].join('\n');
+    }
+
+    private describeAlternative(alternative: ModernAlternative): string {
+        const feature = this.baselineService.getFeatureInfo(alternative.feature);
+        const language = EXAMPLE_LANGUAGES[feature?.category || ''] || '';
+        const lines = [
+            `**💡 Modern alternative: ${escape(alternative.replacement)}** — ${escape(alternative.description)}`,
+            '```' + language + '\n' + alternative.example + '\n```'
+        ];
+        if (alternative.caveats?.length) {
+            lines.push(`**Caveats:**\n${alternative.caveats.map(caveat => `- ${escape(caveat)}`).join('\n')}`);
+        }
+        return lines.join('\n\n');
+    }
+}
+
+/** Escapes text from the feature data so names like `<dialog>` are shown rather than parsed as markup. */
+function escape(text: string): string {
+    return text.replace(/[\\`*_[\]<>|#]/g, '\\$&');
+}
@@ -0,0 +1,275 @@
+import { BaselineService, describeStatus, PatternMatch } from './baselineService';
+import { CssAnalyzer } from './cssAnalyzer';
+import { ScriptAnalyzer } from './scriptAnalyzer';
+
+interface HtmlAttribute {
+    name: string;
+    offset: number;
+    value?: string;
+    valueOffset: number;
+}
+
+interface HtmlStartTag {
+    name: string;
+    offset: number;
+    end: number;
+    attributes: HtmlAttribute[];
+}
+
+const SEMANTIC_CONTAINER = /\b(header|nav|main|footer|aside|article|section)\b/i;
+
+// Elements whose content is raw text rather than markup
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title'];
+
+// React spells these attributes differently from HTML
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+    classname: 'class',
+    htmlfor: 'for'
+};
+
+const SCRIPT_TYPES = ['', 'module', 'text/javascript', 'application/javascript', 'text/ecmascript', 'application/ecmascript'];
+
+// Obsolete presentational elements and attributes, with the CSS that replaces them
+const PRESENTATIONAL_ELEMENTS: Record<string, string> = {
+    center: 'text-align: center or a flex/grid container',
+    font: 'font-family, font-size and color',
+    basefont: 'font properties on the body',
+    big: 'font-size: larger',
+    strike: '<s> or <del>',
+    tt: '<code>, <kbd> or font-family: monospace',
+    marquee: 'CSS animations',
+    blink: 'CSS animations'
+};
+
+const PRESENTATIONAL_ATTRIBUTES: Record<string, string> = {
+    bgcolor: 'background-color',
+    background: 'background-image',
+    align: 'text-align, margin-inline: auto or flexbox alignment',
+    valign: 'vertical-align',
+    cellpadding: 'padding on the cells',
+    cellspacing: 'border-spacing',
+    nowrap: 'white-space: nowrap'
+};
+
+/**
+ * Tokenizes HTML and maps elements, attributes and enumerated attribute values onto
+ * browser-compat-data keys such as `html.elements.dialog`, `html.global_attributes.popover`
+ * or `html.elements.input.type_color`. Reports obsolete presentational markup and the
+ * `<div>` and `<b><i><u>` legacy patterns, and hands inline `<style>`, `<script>` and
+ * `style` attributes to the CSS and script analyzers. Offsets index the whole document.
+ * Also reads Vue, Svelte, JSX and Angular templates, where capitalized tags are
+ * components rather than HTML elements.
+ */
+export class HtmlAnalyzer {
+    private baselineService: BaselineService;
+    private cssAnalyzer: CssAnalyzer;
+    private scriptAnalyzer: ScriptAnalyzer;
+
+    constructor(baselineService: BaselineService, cssAnalyzer: CssAnalyzer, scriptAnalyzer: ScriptAnalyzer) {
+        this.baselineService = baselineService;
+        this.cssAnalyzer = cssAnalyzer;
+        this.scriptAnalyzer = scriptAnalyzer;
+    }
+
+    analyze(text: string, languageId: string = 'html'): PatternMatch[] {
+        const matches: PatternMatch[] = [];
+        const report = (match: PatternMatch) => matches.push(match);
+        const embed = (embedded: PatternMatch[], offset: number) =>
+            embedded.forEach(match => matches.push({ ...match, offset: match.offset + offset }));
+
+        let i = 0;
+        while ((i = text.indexOf('<', i)) !== -1) {
+            if (text.startsWith('<!--', i)) {
+                const end = text.indexOf('-->', i + 4);
+                i = end === -1 ? text.length : end + 3;
+                continue;
+            }
+
+            const tag = parseStartTag(text, i, languageId);
+            if (!tag) {
+                // End tags, doctypes and stray `<` characters
+                const end = /^<[/!?]/.test(text.slice(i, i + 2)) ? text.indexOf('>', i) : i;
+                i = end === -1 ? text.length : end + 1;
+                continue;
+            }
+
+            // HTML tag names are case-insensitive, but templates reserve capitalized names for components
+            if (languageId === 'html' || !/^<[A-Z]/.test(text.slice(i, i + 2))) {
+                this.visitElement(tag, report);
+            }
+            tag.attributes
+                // JSX passes style as an object expression rather than declarations
+                .filter(attribute => attribute.name === 'style' && attribute.value && !attribute.value.startsWith('{'))
+                .forEach(attribute => embed(this.cssAnalyzer.analyzeDeclarations(attribute.value!), attribute.valueOffset));
+            i = tag.end;
+
+            if (RAW_TEXT_ELEMENTS.includes(tag.name)) {
+                const close = new RegExp(`</${tag.name}\\b`, 'ig');
+                close.lastIndex = tag.end;
+                const closing = close.exec(text);
+                const contentEnd = closing ? closing.index : text.length;
+                const content = text.slice(tag.end, contentEnd);
+
+                const languageId = getEmbeddedLanguage(tag);
+                if (languageId === 'css' || languageId === 'scss' || languageId === 'less') {
+                    embed(this.cssAnalyzer.analyze(content, languageId), tag.end);
+                } else if (languageId) {
+                    embed(this.scriptAnalyzer.analyze(content, languageId), tag.end);
+                }
+                i = contentEnd;
+            }
+        }
+
+        return matches.sort((a, b) => a.offset - b.offset);
+    }
+
+    private visitElement(tag: HtmlStartTag, report: (match: PatternMatch) => void): void {
+        const tagLength = tag.end - tag.offset;
+        const isCustomElement = tag.name.includes('-');
+
+        if (Object.prototype.hasOwnProperty.call(PRESENTATIONAL_ELEMENTS, tag.name)) {
+            report({
+                pattern: 'presentational-html',
+                offset: tag.offset,
+                length: tag.name.length + 1,
+                suggestion: `Replace the obsolete <${tag.name}> element with ${PRESENTATIONAL_ELEMENTS[tag.name]}`
+            });
+        }
+
+        if (tag.name === 'div') {
+            const container = tag.attributes
+                .filter(attribute => attribute.name === 'class' || attribute.name === 'id')
+                .map(attribute => SEMANTIC_CONTAINER.exec(attribute.value || '')?.[1])
+                .find(Boolean);
+            if (container) {
+                report({
+                    pattern: '<div>',
+                    offset: tag.offset,
+                    length: tagLength,
+                    suggestion: `Use a <${container.toLowerCase()}> element instead of a generic <div>`
+                });
+            }
+        }
+
+        if (tag.name === 'b' || tag.name === 'i' || tag.name === 'u') {
+            const replacement = tag.name === 'b' ? 'strong' : tag.name === 'i' ? 'em' : 'span class="underline"';
+            report({
+                pattern: '<b><i><u>',
+                offset: tag.offset,
+                length: tagLength,
+                suggestion: `Replace presentational <${tag.name}> with <${replacement}>`
+            });
+        }
+
+        this.reportKey(`html.elements.${tag.name}`, tag.offset + 1, tag.name.length, `<${tag.name}>`, report);
+
+        tag.attributes.forEach(attribute => {
+            if (!isCustomElement && Object.prototype.hasOwnProperty.call(PRESENTATIONAL_ATTRIBUTES, attribute.name)) {
+                report({
+                    pattern: 'presentational-html',
+                    offset: attribute.offset,
+                    length: attribute.name.length,
+                    suggestion: `Replace the obsolete ${attribute.name} attribute with CSS ${PRESENTATIONAL_ATTRIBUTES[attribute.name]}`
+                });
+                return;
+            }
+
+            const attributeKeys = [`html.elements.${tag.name}.${attribute.name}`, `html.global_attributes.${attribute.name}`];
+            const attributeKey = attributeKeys.find(key => this.baselineService.getFeatureByCompatKey(key));
+            if (attributeKey) {
+                this.reportKey(attributeKey, attribute.offset, attribute.name.length, attribute.name, report);
+            }
+            this.visitAttributeValue(tag.name, attribute, attributeKeys, report);
+        });
+    }
+
+    /** Enumerated values such as `type="color"` or `hidden="until-found"`. */
+    private visitAttributeValue(tagName: string, attribute: HtmlAttribute, attributeKeys: string[], report: (match: PatternMatch) => void): void {
+        if (!attribute.value) return;
+
+        const token = /[^\s]+/g;
+        let match: RegExpExecArray | null;
+        while ((match = token.exec(attribute.value)) !== null) {
+            const value = match[0].toLowerCase();
+            const key = [
+                ...attributeKeys.flatMap(attributeKey => [`${attributeKey}.${value}`, `${attributeKey}.${value}_value`]),
+                `html.elements.${tagName}.${attribute.name}_${value}`
+            ].find(candidate => this.baselineService.getFeatureByCompatKey(candidate));
+            if (key) {
+                this.reportKey(key, attribute.valueOffset + match.index, match[0].length, `${attribute.name}="${match[0]}"`, report);
+            }
+        }
+    }
+
+    /** Reports the feature `compatKey` belongs to, whatever its status; CodeAnalyzer decides which widely available ones are findings. */
+    private reportKey(compatKey: string, offset: number, length: number, text: string, report: (match: PatternMatch) => void): void {
+        const feature = this.baselineService.getFeatureByCompatKey(compatKey);
+        if (!feature) return;
+
+        report({
+            pattern: feature.id,
+            offset,
+            length,
+            suggestion: `${text} relies on ${feature.name}, which is ${describeStatus(feature)} (${compatKey})`
+        });
+    }
+}
+
+/** Parses the start tag at `offset`, or returns undefined when there is none. */
+function parseStartTag(text: string, offset: number, languageId: string): HtmlStartTag | undefined {
+    const nameMatch = /<([a-zA-Z][\w:-]*)/y;
+    nameMatch.lastIndex = offset;
+    const name = nameMatch.exec(text);
+    if (!name) return undefined;
+
+    const attributes: HtmlAttribute[] = [];
+    const attribute = /\s*([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+    let i = offset + name[0].length;
+
+    while (i < text.length && text[i] !== '>') {
+        attribute.lastIndex = i;
+        const match = attribute.exec(text);
+        if (!match) {
+            // Whitespace before the end of the tag, or the slash of a self-closing tag
+            i++;
+            continue;
+        }
+
+        const value = match[2] ?? match[3] ?? match[4];
+        const quoted = match[2] !== undefined || match[3] !== undefined;
+        const attributeName = match[1].toLowerCase();
+        attributes.push({
+            name: languageId.endsWith('react') && Object.prototype.hasOwnProperty.call(JSX_ATTRIBUTE_NAMES, attributeName)
+                ? JSX_ATTRIBUTE_NAMES[attributeName]
+                : attributeName,
+            offset: match.index + match[0].indexOf(match[1]),
+            value,
+            valueOffset: value !== undefined ? match.index + match[0].length - value.length - (quoted ? 1 : 0) : -1
+        });
+        i = match.index + match[0].length;
+    }
+
+    return { name: name[1].toLowerCase(), offset, end: Math.min(i + 1, text.length), attributes };
+}
+
+/** The language of an inline `<style>` or `<script>` block, or undefined for data blocks and other elements. */
+function getEmbeddedLanguage(tag: HtmlStartTag): string | undefined {
+    const attribute = (name: string) => tag.attributes.find(a => a.name === name)?.value?.trim().toLowerCase();
+    const lang = attribute('lang');
+
+    if (tag.name === 'style') {
+        const type = attribute('type');
+        if (type && type !== 'text/css') return undefined;
+        return lang === 'scss' || lang === 'less' ? lang : 'css';
+    }
+
+    if (tag.name === 'script') {
+        if (!SCRIPT_TYPES.includes(attribute('type') || '')) return undefined;
+        if (lang === 'ts') return 'typescript';
+        if (lang === 'tsx') return 'typescriptreact';
+        if (lang === 'jsx') return 'javascriptreact';
+        return 'javascript';
+    }
+
+    return undefined;
+}
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import { AdoptionMetrics, FileAnalysis, MigratedTotals } from './metricsTracker';
+
+export const METRICS_SCHEMA_VERSION = 3;
+const WORKSPACE_STATE_KEY = 'baseline-modernizer.metrics';
+const METRICS_FILE_PATH = '.baseline/metrics.json';
+const SAVE_DEBOUNCE_MS = 1000;
+
+export type MetricsStorageLocation = 'workspaceState' | 'file';
+
+/**
+ * Persisted form of `AdoptionMetrics`. Dates are ISO strings and the session start
+ * is left out, since every VS Code window starts a new session.
+ */
+export interface StoredMetrics {
+    schemaVersion: typeof METRICS_SCHEMA_VERSION;
+    savedAt: string;
+    metrics: {
+        filesAnalyzed: number;
+        issuesFound: number;
+        suppressionsFound: number;
+        fixesApplied: number;
+        featureUsage: Record<string, number>;
+        modernizationProgress: number;
+        lastAnalysis: string;
+        files: Record<string, Omit<FileAnalysis, 'analyzedAt'> & { analyzedAt: string }>;
+        migratedTotals?: MigratedTotals;
+        analysisHistory: Array<{ timestamp: string; fileName: string; issuesCount: number; language: string }>;
+        fixHistory: Array<{ timestamp: string; featureId: string; fileName: string; line?: number; column?: number }>;
+    };
+}
+
+export function serializeMetrics(metrics: AdoptionMetrics): StoredMetrics {
+    return {
+        schemaVersion: METRICS_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        metrics: {
+            filesAnalyzed: metrics.filesAnalyzed,
+            issuesFound: metrics.issuesFound,
+            suppressionsFound: metrics.suppressionsFound,
+            fixesApplied: metrics.fixesApplied,
+            featureUsage: { ...metrics.featureUsage },
+            modernizationProgress: metrics.modernizationProgress,
+            lastAnalysis: metrics.lastAnalysis.toISOString(),
+            files: Object.fromEntries(Object.entries(metrics.files).map(([path, file]) =>
+                [path, { ...file, analyzedAt: file.analyzedAt.toISOString() }])),
+            ...(metrics.migratedTotals ? { migratedTotals: metrics.migratedTotals } : {}),
+            analysisHistory: metrics.analysisHistory.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+            fixHistory: metrics.fixHistory.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() }))
+        }
+    };
+}
+
+/**
+ * Upgrades stored data to the current schema. Besides `StoredMetrics` this accepts the
+ * `version: '1.0.0'` document written by `MetricsTracker.exportMetrics`, which is the
+ * flat metrics object with sessionStats and an export timestamp mixed in, either
+ * on its own or nested in the dashboard's export.
+ * Returns undefined when the data is neither.
+ *
+ * Schema 2 and early 1.0.0 exports have no per-file state. Their files are rebuilt from
+ * the analysis history without pattern locations, and the stored file and feature usage
+ * counts are kept as `migratedTotals` until those files are analyzed again.
+ */
+export function migrateMetrics(data: unknown): AdoptionMetrics | undefined {
+    if (!data || typeof data !== 'object') return undefined;
+
+    const record = data as Record<string, unknown>;
+    if (isStoredSchema(record.schemaVersion) && record.metrics && typeof record.metrics === 'object') {
+        return reviveMetrics(record.metrics as Record<string, unknown>);
+    }
+
+    if (record.version === '1.0.0') {
+        return reviveMetrics(record);
+    }
+
+    // The dashboard's export wraps the 1.0.0 document together with browser statistics
+    if (record.metrics && typeof record.metrics === 'object' && (record.metrics as Record<string, unknown>).version === '1.0.0') {
+        return reviveMetrics(record.metrics as Record<string, unknown>);
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks a metrics report against the export schema and lists every problem found,
+ * with the JSON path of the offending value. An empty list means `migrateMetrics`
+ * can revive the report without dropping data.
+ */
+export function validateMetricsReport(data: unknown): string[] {
+    if (!data || typeof data !== 'object') return ['The file does not contain a JSON object.'];
+
+    const record = data as Record<string, unknown>;
+    const nested = record.metrics && typeof record.metrics === 'object' ? record.metrics as Record<string, unknown> : undefined;
+    const [metrics, path] = isStoredSchema(record.schemaVersion) || (nested && nested.version === '1.0.0')
+        ? [nested, 'metrics']
+        : [record, ''];
+    const at = (key: string) => path ? `${path}.${key}` : key;
+    const errors: string[] = [];
+
+    if (!metrics) return ['"metrics" must be an object.'];
+    if (!isStoredSchema(record.schemaVersion) && metrics.version !== '1.0.0') {
+        errors.push(`Unsupported report version ${JSON.stringify(metrics.version ?? record.schemaVersion)}; expected "1.0.0".`);
+    }
+
+    ['filesAnalyzed', 'issuesFound', 'fixesApplied', 'modernizationProgress'].forEach(key => {
+        if (typeof metrics[key] !== 'number') errors.push(`${at(key)} must be a number.`);
+    });
+    if (!isCountRecord(metrics.featureUsage)) errors.push(`${at('featureUsage')} must map feature ids to counts.`);
+    if (!isDateValue(metrics.lastAnalysis)) errors.push(`${at('lastAnalysis')} must be a date.`);
+
+    const checkHistory = (key: string, fields: Record<string, 'string' | 'number'>) => {
+        const entries = metrics[key];
+        if (!Array.isArray(entries)) {
+            errors.push(`${at(key)} must be an array.`);
+            return;
+        }
+        entries.forEach((entry, index) => {
+            if (!entry || typeof entry !== 'object') {
+                errors.push(`${at(key)}[${index}] must be an object.`);
+                return;
+            }
+            if (!isDateValue(entry.timestamp)) errors.push(`${at(key)}[${index}].timestamp must be a date.`);
+            Object.entries(fields).forEach(([field, type]) => {
+                if (typeof entry[field] !== type) errors.push(`${at(key)}[${index}].${field} must be a ${type}.`);
+            });
+        });
+    };
+    checkHistory('analysisHistory', { fileName: 'string', issuesCount: 'number', language: 'string' });
+    checkHistory('fixHistory', { featureId: 'string', fileName: 'string' });
+
+    if (metrics.files !== undefined) {
+        if (!metrics.files || typeof metrics.files !== 'object' || Array.isArray(metrics.files)) {
+            errors.push(`${at('files')} must map file paths to analyses.`);
+        } else {
+            Object.entries(metrics.files as Record<string, Record<string, unknown>>).forEach(([file, analysis]) => {
+                const key = `${at('files')}[${JSON.stringify(file)}]`;
+                if (!analysis || typeof analysis !== 'object') {
+                    errors.push(`${key} must be an object.`);
+                    return;
+                }
+                if (typeof analysis.issuesFound !== 'number') errors.push(`${key}.issuesFound must be a number.`);
+                if (!Array.isArray(analysis.patterns)) errors.push(`${key}.patterns must be an array.`);
+                if (analysis.suppressions !== undefined && !Array.isArray(analysis.suppressions)) {
+                    errors.push(`${key}.suppressions must be an array.`);
+                }
+                if (!isDateValue(analysis.analyzedAt)) errors.push(`${key}.analyzedAt must be a date.`);
+            });
+        }
+    }
+
+    return errors;
+}
+
+function reviveMetrics(source: Record<string, unknown>): AdoptionMetrics | undefined {
+    if (typeof source.filesAnalyzed !== 'number' || typeof source.issuesFound !== 'number') {
+        return undefined;
+    }
+
+    const analysisHistory: AdoptionMetrics['analysisHistory'] = (Array.isArray(source.analysisHistory) ? source.analysisHistory : [])
+        .map(entry => ({
+            timestamp: toDate(entry.timestamp),
+            fileName: String(entry.fileName ?? ''),
+            issuesCount: Number(entry.issuesCount) || 0,
+            language: String(entry.language ?? 'unknown')
+        }));
+    const fixHistory = Array.isArray(source.fixHistory) ? source.fixHistory : [];
+    const hasFiles = !!source.files && typeof source.files === 'object';
+    const files = hasFiles
+        ? reviveFiles(source.files as Record<string, Record<string, unknown>>)
+        : filesFromHistory(analysisHistory);
+    const featureUsage = isCountRecord(source.featureUsage) ? { ...source.featureUsage } : {};
+    const migratedTotals: MigratedTotals | undefined = hasFiles
+        ? reviveMigratedTotals(source.migratedTotals)
+        : { filesAnalyzed: source.filesAnalyzed, featureUsage, fileNames: Object.keys(files), pendingFiles: Object.keys(files) };
+
+    return {
+        filesAnalyzed: source.filesAnalyzed,
+        issuesFound: source.issuesFound,
+        // Reports from before suppression comments have none
+        suppressionsFound: Object.values(files).reduce((total, file) => total + file.suppressions.length, 0),
+        fixesApplied: typeof source.fixesApplied === 'number' ? source.fixesApplied : 0,
+        featureUsage,
+        modernizationProgress: typeof source.modernizationProgress === 'number' ? source.modernizationProgress : 0,
+        lastAnalysis: toDate(source.lastAnalysis),
+        sessionStartTime: new Date(),
+        files,
+        ...(migratedTotals ? { migratedTotals } : {}),
+        analysisHistory,
+        fixHistory: fixHistory.map(entry => ({
+            timestamp: toDate(entry.timestamp),
+            featureId: String(entry.featureId ?? ''),
+            fileName: String(entry.fileName ?? ''),
+            ...(typeof entry.line === 'number' && typeof entry.column === 'number' ? { line: entry.line, column: entry.column } : {})
+        }))
+    };
+}
+
+function reviveFiles(source: Record<string, Record<string, unknown>>): Record<string, FileAnalysis> {
+    const files: Record<string, FileAnalysis> = {};
+
+    Object.entries(source).forEach(([fileName, file]) => {
+        files[fileName] = {
+            fileName,
+            language: String(file.language ?? 'unknown'),
+            lineCount: Number(file.lineCount) || 0,
+            issuesFound: Number(file.issuesFound) || 0,
+            baselineScore: Number(file.baselineScore) || 0,
+            patterns: Array.isArray(file.patterns) ? file.patterns : [],
+            suppressions: Array.isArray(file.suppressions) ? file.suppressions : [],
+            analyzedAt: toDate(file.analyzedAt)
+        };
+    });
+
+    return files;
+}
+
+/** Rebuilds per-file state from the newest history entry of each file. */
+function filesFromHistory(history: AdoptionMetrics['analysisHistory']): Record<string, FileAnalysis> {
+    const files: Record<string, FileAnalysis> = {};
+
+    history.forEach(entry => {
+        const current = files[entry.fileName];
+        if (current && current.analyzedAt > entry.timestamp) return;
+
+        files[entry.fileName] = {
+            fileName: entry.fileName,
+            language: entry.language,
+            lineCount: 0,
+            issuesFound: entry.issuesCount,
+            baselineScore: 0,
+            patterns: [],
+            suppressions: [],
+            analyzedAt: entry.timestamp
+        };
+    });
+
+    return files;
+}
+
+/** Migrated totals saved while their files were still being analyzed again. */
+function reviveMigratedTotals(value: unknown): MigratedTotals | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+
+    const totals = value as Record<string, unknown>;
+    const isNameList = (names: unknown): names is string[] => Array.isArray(names) && names.every(name => typeof name === 'string');
+    if (typeof totals.filesAnalyzed !== 'number' || !isCountRecord(totals.featureUsage) ||
+        !isNameList(totals.fileNames) || !isNameList(totals.pendingFiles) || totals.pendingFiles.length === 0) {
+        return undefined;
+    }
+    return { filesAnalyzed: totals.filesAnalyzed, featureUsage: { ...totals.featureUsage }, fileNames: totals.fileNames, pendingFiles: totals.pendingFiles };
+}
+
+function isStoredSchema(version: unknown): boolean {
+    return version === 2 || version === METRICS_SCHEMA_VERSION;
+}
+
+function isCountRecord(value: unknown): value is Record<string, number> {
+    return !!value && typeof value === 'object' && Object.values(value).every(count => typeof count === 'number');
+}
+
+function isDateValue(value: unknown): boolean {
+    return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function toDate(value: unknown): Date {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+    return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Keeps metrics per workspace, either in VS Code's workspaceState or in a
+ * `.baseline/metrics.json` file that can be committed with the project.
+ */
+export class MetricsStorage implements vscode.Disposable {
+    private workspaceState: vscode.Memento;
+    private pendingSave: ReturnType<typeof setTimeout> | undefined;
+    private latest: AdoptionMetrics | undefined;
+    // The chain of writes started so far
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(workspaceState: vscode.Memento) {
+        this.workspaceState = workspaceState;
+    }
+
+    async load(): Promise<AdoptionMetrics | undefined> {
+        const fileUri = this.getFileUri();
+
+        if (fileUri && this.getLocation() === 'file') {
+            try {
+                const content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(fileUri));
+                return migrateMetrics(JSON.parse(content));
+            } catch (error) {
+                if (!(error instanceof vscode.FileSystemError)) {
+                    console.warn(`Could not read ${METRICS_FILE_PATH}:`, error);
+                }
+                return undefined;
+            }
+        }
+
+        return migrateMetrics(this.workspaceState.get(WORKSPACE_STATE_KEY));
+    }
+
+    /** Coalesces the bursts of updates a project analysis produces into one write. */
+    scheduleSave(metrics: AdoptionMetrics): void {
+        this.latest = metrics;
+        if (this.pendingSave) clearTimeout(this.pendingSave);
+
+        this.pendingSave = setTimeout(() => {
+            this.pendingSave = undefined;
+            this.flush();
+        }, SAVE_DEBOUNCE_MS);
+    }
+
+    /**
+     * Writes the latest metrics right away and resolves once every write started so far,
+     * including one a scheduled save began earlier, has finished. Never rejects; failures are logged.
+     */
+    flush(): Promise<void> {
+        const metrics = this.latest;
+        this.latest = undefined;
+
+        // Writes run one after another, so an older snapshot never lands after a newer one
+        if (metrics) this.writing = this.writing.then(() => this.write(metrics));
+        return this.writing;
+    }
+
+    private async write(metrics: AdoptionMetrics): Promise<void> {
+        const fileUri = this.getFileUri();
+        try {
+            const stored = serializeMetrics(metrics);
+            if (fileUri && this.getLocation() === 'file') {
+                await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'));
+                await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(JSON.stringify(stored, null, 2) + '\n'));
+            } else {
+                await this.workspaceState.update(WORKSPACE_STATE_KEY, stored);
+            }
+        } catch (error) {
+            console.warn('Could not save Baseline metrics:', error);
+        }
+    }
+
+    private getLocation(): MetricsStorageLocation {
+        return vscode.workspace.getConfiguration('baseline-modernizer').get<MetricsStorageLocation>('metricsStorage', 'workspaceState');
+    }
+
+    private getFileUri(): vscode.Uri | undefined {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return folder ? vscode.Uri.joinPath(folder.uri, METRICS_FILE_PATH) : undefined;
+    }
+
+    dispose(): void {
+        if (this.pendingSave) {
+            clearTimeout(this.pendingSave);
+            this.pendingSave = undefined;
+        }
+        // After deactivate has flushed, which VS Code waits for, nothing is left to write here
+        void this.flush();
+    }
+}
@@ -1,11 +1,62 @@
+import { AnalysisResult, BaselineService, BaselineTarget, Suppression } from './baselineService';
+import { FilePolicy } from './policy';
+import { createSarifLog } from './sarif';
+import { aggregateScores, BaselineScore } from './scoring';
+
+/** The latest analysis of one file, keyed in `AdoptionMetrics.files` by workspace-relative path. */
+export interface FileAnalysis {
+    fileName: string;
+    language: string;
+    // 0 when rebuilt from history that predates line counts
+    lineCount: number;
+    issuesFound: number;
+    baselineScore: number;
+    patterns: AnalysisResult['patterns'];
+    suppressions: Suppression[];
+    analyzedAt: Date;
+}
+
+/**
+ * The latest scan limited to files changed against a git ref. It is kept apart from
+ * `AdoptionMetrics` so partial results never change the full-project totals, and it
+ * is not persisted.
+ */
+export interface DiffScan {
+    baseRef: string;
+    // Only findings on added or modified lines were kept
+    changedLinesOnly: boolean;
+    scannedAt: Date;
+    filesScanned: number;
+    issuesFound: number;
+    files: FileAnalysis[];
+}
+
+/**
+ * The totals of a report from before per-file state was stored. Its files are rebuilt
+ * from the analysis history without patterns, so these totals count for them until
+ * every one of them has been analyzed again.
+ */
+export interface MigratedTotals {
+    filesAnalyzed: number;
+    featureUsage: Record<string, number>;
+    fileNames: string[];
+    // Rebuilt files that have not been analyzed since
+    pendingFiles: string[];
+}
+
 export interface AdoptionMetrics {
+    // Derived from `files` and `fixHistory` so re-analyzing a file never counts its issues twice
     filesAnalyzed: number;
     issuesFound: number;
+    // Findings silenced by baseline-ignore comments; neither issues nor fixes
+    suppressionsFound: number;
     fixesApplied: number;
     featureUsage: Record<string, number>;
     modernizationProgress: number;
     lastAnalysis: Date;
     sessionStartTime: Date;
+    files: Record<string, FileAnalysis>;
+    migratedTotals?: MigratedTotals;
     analysisHistory: Array<{
         timestamp: Date;
         fileName: string;
@@ -16,69 +67,216 @@ export interface AdoptionMetrics {
         timestamp: Date;
         featureId: string;
         fileName: string;
+        // Where the fix was applied, when known; fixes recorded before this was tracked have none
+        line?: number;
+        column?: number;
     }>;
 }
 
 export class MetricsTracker {
     private metrics: AdoptionMetrics;
+    private diffScan: DiffScan | undefined;
+    private changeListeners: Array<() => void> = [];
 
     constructor() {
         this.metrics = {
             filesAnalyzed: 0,
             issuesFound: 0,
+            suppressionsFound: 0,
             fixesApplied: 0,
             featureUsage: {},
             modernizationProgress: 0,
             lastAnalysis: new Date(),
             sessionStartTime: new Date(),
+            files: {},
             analysisHistory: [],
             fixHistory: []
         };
     }
 
-    recordAnalysis(filePath: string, issuesCount: number, language: string = 'unknown'): void {
-        this.metrics.filesAnalyzed++;
-        this.metrics.issuesFound += issuesCount;
-        this.metrics.lastAnalysis = new Date();
+    /** Registers a callback that runs whenever the metrics change, e.g. to persist them. */
+    onDidChange(listener: () => void): void {
+        this.changeListeners.push(listener);
+    }
+
+    /** Replaces the current metrics with previously stored ones; the session starts now. */
+    load(metrics: AdoptionMetrics): void {
+        this.metrics = {
+            ...metrics,
+            files: { ...metrics.files },
+            migratedTotals: metrics.migratedTotals && { ...metrics.migratedTotals },
+            sessionStartTime: new Date()
+        };
+        this.updateTotals();
+    }
+
+    /**
+     * Brings in metrics from another report. Merging keeps every analysis and fix once,
+     * treating entries with the same timestamp and file as the same event, and keeps
+     * whichever analysis of a file is newer. Returns how many entries were added.
+     */
+    importMetrics(imported: AdoptionMetrics, mode: 'replace' | 'merge'): { analyses: number; fixes: number } {
+        if (mode === 'replace') {
+            this.load(imported);
+            this.notifyChange();
+            return { analyses: imported.analysisHistory.length, fixes: imported.fixHistory.length };
+        }
+
+        // A workspace fix records many locations of one file at the same time, so fixes are told apart by position
+        const historyKey = (entry: { timestamp: Date; fileName: string; line?: number; column?: number }) =>
+            `${entry.timestamp.getTime()}|${entry.fileName}|${entry.line ?? ''}:${entry.column ?? ''}`;
+        const knownAnalyses = new Set(this.metrics.analysisHistory.map(historyKey));
+        const knownFixes = new Set(this.metrics.fixHistory.map(historyKey));
+        const newAnalyses = imported.analysisHistory.filter(entry => !knownAnalyses.has(historyKey(entry)));
+        const newFixes = imported.fixHistory.filter(entry => !knownFixes.has(historyKey(entry)));
+
+        this.metrics.analysisHistory = [...this.metrics.analysisHistory, ...newAnalyses]
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        this.metrics.fixHistory = [...this.metrics.fixHistory, ...newFixes]
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+        // Totals of an older report cannot be split by file, so they only carry over into empty metrics
+        if (Object.keys(this.metrics.files).length === 0 && imported.migratedTotals) {
+            this.metrics.migratedTotals = { ...imported.migratedTotals };
+        }
+
+        Object.values(imported.files).forEach(file => {
+            const current = this.metrics.files[file.fileName];
+            if (!current || file.analyzedAt > current.analyzedAt) {
+                this.metrics.files[file.fileName] = file;
+            }
+        });
+
+        if (imported.lastAnalysis > this.metrics.lastAnalysis) {
+            this.metrics.lastAnalysis = imported.lastAnalysis;
+        }
+
+        this.updateTotals();
+        this.notifyChange();
+        return { analyses: newAnalyses.length, fixes: newFixes.length };
+    }
+
+    private notifyChange(): void {
+        this.changeListeners.forEach(listener => listener());
+    }
+
+    /** Stores `result` as the current state of its file, replacing any earlier analysis. */
+    recordAnalysis(result: AnalysisResult): void {
+        const analyzedAt = new Date();
+
+        this.metrics.files[result.fileName] = {
+            fileName: result.fileName,
+            language: result.language,
+            lineCount: result.lineCount,
+            issuesFound: result.issuesFound,
+            baselineScore: result.baselineScore,
+            patterns: result.patterns,
+            suppressions: result.suppressions,
+            analyzedAt
+        };
+        this.metrics.lastAnalysis = analyzedAt;
 
         // Add to history
         this.metrics.analysisHistory.push({
-            timestamp: new Date(),
-            fileName: filePath.split('/').pop() || filePath,
-            issuesCount,
-            language
+            timestamp: analyzedAt,
+            fileName: result.fileName,
+            issuesCount: result.issuesFound,
+            language: result.language
         });
 
-        this.updateModernizationProgress();
+        this.settleMigratedFiles([result.fileName]);
+        this.updateTotals();
+        this.notifyChange();
     }
 
-    recordFix(featureId: string, fileName: string = ''): void {
-        this.metrics.fixesApplied++;
+    /** Replaces the latest diff scan; the full-project metrics are left untouched. */
+    recordDiffScan(baseRef: string, changedLinesOnly: boolean, results: AnalysisResult[]): DiffScan {
+        const scannedAt = new Date();
+        this.diffScan = {
+            baseRef,
+            changedLinesOnly,
+            scannedAt,
+            filesScanned: results.length,
+            issuesFound: results.reduce((total, result) => total + result.issuesFound, 0),
+            files: results.map(result => ({
+                fileName: result.fileName,
+                language: result.language,
+                lineCount: result.lineCount,
+                issuesFound: result.issuesFound,
+                baselineScore: result.baselineScore,
+                patterns: result.patterns,
+                suppressions: result.suppressions,
+                analyzedAt: scannedAt
+            }))
+        };
+        return this.diffScan;
+    }
+
+    getDiffScan(): DiffScan | undefined {
+        return this.diffScan;
+    }
 
+    /** Forgets files that a complete project scan no longer found, e.g. deleted or newly ignored ones. */
+    retainFiles(fileNames: string[]): void {
+        const keep = new Set(fileNames);
+        const removed = Object.keys(this.metrics.files).filter(fileName => !keep.has(fileName));
+        if (removed.length === 0) return;
+
+        removed.forEach(fileName => delete this.metrics.files[fileName]);
+        this.settleMigratedFiles(removed);
+        this.updateTotals();
+        this.notifyChange();
+    }
+
+    recordFix(featureId: string, fileName: string = '', position?: { line: number; column: number }): void {
         // Add to fix history
         this.metrics.fixHistory.push({
             timestamp: new Date(),
             featureId,
-            fileName: fileName.split('/').pop() || fileName
+            fileName,
+            ...position
         });
 
-        this.updateModernizationProgress();
+        this.updateTotals();
+        this.notifyChange();
     }
 
-    recordFeatureUsage(featureId: string, count: number = 1): void {
-        if (!this.metrics.featureUsage[featureId]) {
-            this.metrics.featureUsage[featureId] = 0;
-        }
-        this.metrics.featureUsage[featureId] += count;
+    /** Drops the migrated totals once none of the files rebuilt from history is left to analyze. */
+    private settleMigratedFiles(fileNames: string[]): void {
+        const migrated = this.metrics.migratedTotals;
+        if (!migrated) return;
+
+        migrated.pendingFiles = migrated.pendingFiles.filter(fileName => !fileNames.includes(fileName));
+        if (migrated.pendingFiles.length === 0) this.metrics.migratedTotals = undefined;
+    }
+
+    private updateTotals(): void {
+        const files = Object.values(this.metrics.files);
+        const migrated = this.metrics.migratedTotals;
+        const migratedFiles = new Set(migrated?.fileNames);
+        // Files rebuilt from history have no patterns; the migrated totals count for them instead
+        const counted = files.filter(file => !migratedFiles.has(file.fileName));
+        const featureUsage: Record<string, number> = { ...migrated?.featureUsage };
+
+        counted.forEach(file => file.patterns.forEach(pattern => {
+            featureUsage[pattern.pattern] = (featureUsage[pattern.pattern] || 0) + pattern.count;
+        }));
+
+        this.metrics.filesAnalyzed = (migrated?.filesAnalyzed || 0) + counted.length;
+        this.metrics.issuesFound = files.reduce((total, file) => total + file.issuesFound, 0);
+        this.metrics.suppressionsFound = files.reduce((total, file) => total + file.suppressions.length, 0);
+        this.metrics.featureUsage = featureUsage;
+        this.metrics.fixesApplied = this.metrics.fixHistory.length;
+        this.updateModernizationProgress();
     }
 
     private updateModernizationProgress(): void {
-        if (this.metrics.issuesFound === 0) {
+        // Fixed issues disappear from issuesFound on the next analysis, so they count toward both sides
+        const total = this.metrics.fixesApplied + this.metrics.issuesFound;
+        if (total === 0) {
             this.metrics.modernizationProgress = this.metrics.filesAnalyzed > 0 ? 100 : 0;
         } else {
-            this.metrics.modernizationProgress = Math.round(
-                (this.metrics.fixesApplied / this.metrics.issuesFound) * 100
-            );
+            this.metrics.modernizationProgress = Math.round((this.metrics.fixesApplied / total) * 100);
         }
 
         // Cap at 100%
@@ -96,6 +294,16 @@ export class MetricsTracker {
             .slice(0, 10);
     }
 
+    /** Files with their latest analysis, most issues first. */
+    getFileAnalyses(): FileAnalysis[] {
+        return Object.values(this.metrics.files).sort((a, b) => b.issuesFound - a.issuesFound);
+    }
+
+    /** The Baseline score of every tracked file scored as one body of code, with the points each pattern costs. */
+    getProjectScore(baselineService: BaselineService): BaselineScore {
+        return aggregateScores(Object.values(this.metrics.files), baselineService);
+    }
+
     getAnalysisHistory(): Array<{ timestamp: Date; fileName: string; issuesCount: number; language: string }> {
         return [...this.metrics.analysisHistory].reverse(); // Most recent first
     }
@@ -104,6 +312,15 @@ export class MetricsTracker {
         return [...this.metrics.fixHistory].reverse(); // Most recent first
     }
 
+    /** Every suppressed finding in the tracked files, ordered by file and line. */
+    getSuppressions(): Array<Suppression & { fileName: string }> {
+        return Object.values(this.metrics.files)
+            .sort((a, b) => a.fileName.localeCompare(b.fileName))
+            .flatMap(file => file.suppressions
+                .map(suppression => ({ fileName: file.fileName, ...suppression }))
+                .sort((a, b) => a.line - b.line || a.column - b.column));
+    }
+
     getSessionStats(): {
         duration: number; // in minutes
         filesAnalyzedThisSession: number;
@@ -113,12 +330,15 @@ export class MetricsTracker {
     } {
         const now = new Date();
         const duration = Math.round((now.getTime() - this.metrics.sessionStartTime.getTime()) / (1000 * 60));
+        // Metrics persist across sessions, so only history entries since the session began count here
+        const sessionAnalyses = this.metrics.analysisHistory.filter(entry => entry.timestamp >= this.metrics.sessionStartTime);
+        const sessionFixes = this.metrics.fixHistory.filter(entry => entry.timestamp >= this.metrics.sessionStartTime);
 
         return {
             duration,
-            filesAnalyzedThisSession: this.metrics.filesAnalyzed,
-            issuesFoundThisSession: this.metrics.issuesFound,
-            fixesAppliedThisSession: this.metrics.fixesApplied,
+            filesAnalyzedThisSession: sessionAnalyses.length,
+            issuesFoundThisSession: sessionAnalyses.reduce((total, entry) => total + entry.issuesCount, 0),
+            fixesAppliedThisSession: sessionFixes.length,
             averageIssuesPerFile: this.metrics.filesAnalyzed > 0 ? 
                 Math.round((this.metrics.issuesFound / this.metrics.filesAnalyzed) * 10) / 10 : 0
         };
@@ -128,14 +348,18 @@ export class MetricsTracker {
         this.metrics = {
             filesAnalyzed: 0,
             issuesFound: 0,
+            suppressionsFound: 0,
             fixesApplied: 0,
             featureUsage: {},
             modernizationProgress: 0,
             lastAnalysis: new Date(),
             sessionStartTime: new Date(),
+            files: {},
             analysisHistory: [],
             fixHistory: []
         };
+        this.diffScan = undefined;
+        this.notifyChange();
     }
 
     exportMetrics(): string {
@@ -149,29 +373,64 @@ export class MetricsTracker {
         return JSON.stringify(exportData, null, 2);
     }
 
+    /** The latest analysis of every tracked file as a SARIF 2.1.0 log, for code scanning tools. */
+    exportSarif(
+        baselineService: BaselineService,
+        target: BaselineTarget,
+        toolVersion?: string,
+        getPolicy?: (fileName: string) => FilePolicy
+    ): string {
+        const files = Object.values(this.metrics.files).sort((a, b) => a.fileName.localeCompare(b.fileName));
+        return JSON.stringify(createSarifLog(files, baselineService, target, toolVersion, getPolicy), null, 2);
+    }
+
     // Load sample data for demonstration
-    loadSampleData(): void {
+    loadSampleData(baselineService: BaselineService): void {
         // Simulate some analysis history
-        const sampleFiles = ['app.js', 'components/Header.js', 'styles/main.css', 'utils/api.js', 'index.html'];
-        const sampleFeatures = ['var', 'XMLHttpRequest', 'float', 'function', '<div>', '<b><i><u>', 'for-in'];
-
-        sampleFiles.forEach((file, index) => {
-            this.recordAnalysis(`src/${file}`, Math.floor(Math.random() * 5) + 1, 
-                file.endsWith('.js') ? 'javascript' : 
-                file.endsWith('.css') ? 'css' : 
-                file.endsWith('.html') ? 'html' : 'typescript'
-            );
-        });
+        const sampleFiles: Array<[string, string, string[]]> = [
+            ['app.js', 'javascript', ['var', 'function']],
+            ['components/Header.tsx', 'typescriptreact', ['var', 'XMLHttpRequest']],
+            ['components/Modal.vue', 'vue', ['function', 'presentational-html']],
+            ['styles/main.css', 'css', ['float']],
+            ['utils/api.ts', 'typescript', ['XMLHttpRequest', 'function']],
+            ['index.html', 'html', ['<div>', '<b><i><u>']]
+        ];
+
+        sampleFiles.forEach(([file, language, patterns]) => {
+            const samplePatterns = patterns.map(pattern => {
+                const count = Math.floor(Math.random() * 4) + 1;
+                return {
+                    pattern,
+                    count,
+                    locations: Array.from({ length: count }, (_, index) => ({
+                        line: (index + 1) * 10,
+                        column: 1,
+                        suggestion: `Sample ${pattern} usage`
+                    }))
+                };
+            });
+
+            const lineCount = Math.floor(Math.random() * 200) + 60;
+            const score = baselineService.calculateBaselineScore({ patterns: samplePatterns, lineCount });
 
-        // Record feature usage
-        sampleFeatures.forEach(feature => {
-            const count = Math.floor(Math.random() * 8) + 1;
-            this.recordFeatureUsage(feature, count);
+            this.recordAnalysis({
+                fileName: `src/${file}`,
+                language,
+                lineCount,
+                issuesFound: samplePatterns.reduce((total, pattern) => total + pattern.count, 0),
+                patterns: samplePatterns,
+                suppressions: file === 'utils/api.ts'
+                    ? [{ pattern: 'XMLHttpRequest', line: 42, column: 17, justification: 'Upload progress events need XHR' }]
+                    : [],
+                recommendations: [],
+                baselineScore: score.score,
+                scoreBreakdown: score.breakdown
+            });
         });
 
         // Record some fixes
-        this.recordFix('let-const', 'app.js');
-        this.recordFix('fetch', 'api.js');
-        this.recordFix('flexbox', 'main.css');
+        this.recordFix('let-const', 'src/app.js');
+        this.recordFix('fetch', 'src/utils/api.ts');
+        this.recordFix('flexbox', 'src/styles/main.css');
     }
 }
@@ -0,0 +1,174 @@
+import { BaselineService, BaselineTarget } from './baselineService';
+import { globToRegex } from './gitignore';
+
+export const POLICY_FILE_NAME = '.baseline.json';
+
+export type PolicySeverity = 'error' | 'warning' | 'info' | 'hint' | 'off';
+
+/** Settings shared by the policy file and its overrides. */
+interface PolicyRules {
+    target?: BaselineTarget;
+    // Feature IDs or legacy pattern names that are accepted regardless of the target
+    allow?: string[];
+    // Feature IDs or legacy pattern names that are always errors
+    deny?: string[];
+    rules?: Record<string, PolicySeverity>;
+}
+
+export interface PolicyOverride extends PolicyRules {
+    files: string[];
+}
+
+/** The contents of a `.baseline.json` policy file. */
+export interface BaselinePolicy extends PolicyRules {
+    overrides?: PolicyOverride[];
+}
+
+/** The policy for one file: the top-level settings with every matching override applied in order. */
+export interface FilePolicy {
+    target: BaselineTarget;
+    allow: Set<string>;
+    deny: Set<string>;
+    rules: Record<string, PolicySeverity>;
+}
+
+const TARGETS: BaselineTarget[] = ['high', 'low', 'false'];
+const SEVERITIES: PolicySeverity[] = ['error', 'warning', 'info', 'hint', 'off'];
+
+export function validatePolicy(data: unknown): string[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return ['The policy must be a JSON object.'];
+
+    const errors: string[] = [];
+    const checkRules = (rules: Record<string, unknown>, path: string) => {
+        const at = (key: string) => path ? `${path}.${key}` : key;
+
+        if (rules.target !== undefined && !TARGETS.includes(rules.target as BaselineTarget)) {
+            errors.push(`${at('target')} must be one of ${TARGETS.map(target => `"${target}"`).join(', ')}.`);
+        }
+        ['allow', 'deny'].forEach(key => {
+            const list = rules[key];
+            if (list !== undefined && !(Array.isArray(list) && list.every(item => typeof item === 'string'))) {
+                errors.push(`${at(key)} must be an array of feature IDs.`);
+            }
+        });
+        if (rules.rules !== undefined) {
+            if (!rules.rules || typeof rules.rules !== 'object' || Array.isArray(rules.rules)) {
+                errors.push(`${at('rules')} must map feature IDs to severities.`);
+            } else {
+                Object.entries(rules.rules as Record<string, unknown>).forEach(([id, severity]) => {
+                    if (!SEVERITIES.includes(severity as PolicySeverity)) {
+                        errors.push(`${at('rules')}[${JSON.stringify(id)}] must be one of ${SEVERITIES.map(value => `"${value}"`).join(', ')}.`);
+                    }
+                });
+            }
+        }
+    };
+
+    const policy = data as Record<string, unknown>;
+    checkRules(policy, '');
+
+    if (policy.overrides !== undefined) {
+        if (!Array.isArray(policy.overrides)) {
+            errors.push('overrides must be an array.');
+        } else {
+            policy.overrides.forEach((override, index) => {
+                const path = `overrides[${index}]`;
+                if (!override || typeof override !== 'object' || Array.isArray(override)) {
+                    errors.push(`${path} must be an object.`);
+                    return;
+                }
+                const files = (override as Record<string, unknown>).files;
+                if (!Array.isArray(files) || files.length === 0 || !files.every(file => typeof file === 'string')) {
+                    errors.push(`${path}.files must be a non-empty array of globs.`);
+                }
+                checkRules(override as Record<string, unknown>, path);
+            });
+        }
+    }
+
+    return errors;
+}
+
+/** Parses and validates policy file content; throws with every problem found. */
+export function parsePolicy(content: string): BaselinePolicy {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${POLICY_FILE_NAME} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validatePolicy(data);
+    if (errors.length > 0) {
+        throw new Error(`${POLICY_FILE_NAME} is invalid: ${errors.join(' ')}`);
+    }
+    return data as BaselinePolicy;
+}
+
+/**
+ * The policy for `relativePath`, a path relative to the folder holding the policy file;
+ * without a path only the top-level settings apply. Without a policy, or when it sets
+ * no target, `defaultTarget` applies.
+ */
+export function resolvePolicy(policy: BaselinePolicy | undefined, relativePath: string | undefined, defaultTarget: BaselineTarget): FilePolicy {
+    const resolved: FilePolicy = { target: defaultTarget, allow: new Set(), deny: new Set(), rules: {} };
+    if (!policy) return resolved;
+
+    const apply = (rules: PolicyRules) => {
+        if (rules.target) resolved.target = rules.target;
+        // A later list wins, so an override can deny what the top level allows and vice versa
+        rules.allow?.forEach(id => {
+            resolved.allow.add(id);
+            resolved.deny.delete(id);
+        });
+        rules.deny?.forEach(id => {
+            resolved.deny.add(id);
+            resolved.allow.delete(id);
+        });
+        Object.assign(resolved.rules, rules.rules);
+    };
+
+    apply(policy);
+    if (relativePath !== undefined) {
+        const path = relativePath.replace(/\\/g, '/');
+        policy.overrides
+            ?.filter(override => override.files.some(glob => matchesGlob(path, glob)))
+            .forEach(apply);
+    }
+
+    return resolved;
+}
+
+/**
+ * The severity the policy assigns to `pattern`: an explicit rule first, then `off` for
+ * allowed and `error` for denied patterns. Undefined when the policy does not mention it.
+ */
+export function getPolicySeverity(policy: FilePolicy, pattern: string): PolicySeverity | undefined {
+    if (Object.prototype.hasOwnProperty.call(policy.rules, pattern)) return policy.rules[pattern];
+    if (policy.allow.has(pattern)) return 'off';
+    if (policy.deny.has(pattern)) return 'error';
+    return undefined;
+}
+
+/**
+ * How a finding of `pattern` is reported outside the editor: the policy's severity when
+ * it sets one, otherwise an error below the target, a warning for legacy patterns with a
+ * modern alternative and info for everything else.
+ */
+export function getFindingSeverity(policy: FilePolicy, pattern: string, baselineService: BaselineService): PolicySeverity {
+    const severity = getPolicySeverity(policy, pattern);
+    if (severity) return severity;
+    if (baselineService.isBelowTarget(pattern, policy.target)) return 'error';
+    return baselineService.isLegacyPattern(pattern) ? 'warning' : 'info';
+}
+
+/**
+ * Whether `glob` matches `path`. As in .gitignore, globs without a slash match at any
+ * depth, and a glob matching a directory covers everything inside it.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+    const trimmed = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+    const anchored = trimmed.includes('/');
+    const body = globToRegex(trimmed.replace(/^\/+/, ''));
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}(?:/.*)?$`).test(path);
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { BaselineTarget } from './baselineService';
+import { BaselinePolicy, FilePolicy, parsePolicy, POLICY_FILE_NAME, resolvePolicy } from './policy';
+
+/** Loads the `.baseline.json` policy of each workspace folder and resolves it per file. */
+export class BaselinePolicyProvider implements vscode.Disposable {
+    private policies: Map<string, BaselinePolicy>;
+    private onDidChangeEmitter: vscode.EventEmitter<void>;
+    private disposables: vscode.Disposable[];
+
+    readonly onDidChange: vscode.Event<void>;
+
+    constructor() {
+        this.policies = new Map();
+        this.onDidChangeEmitter = new vscode.EventEmitter<void>();
+        this.onDidChange = this.onDidChangeEmitter.event;
+        this.disposables = [this.onDidChangeEmitter];
+    }
+
+    async register(): Promise<void> {
+        const reload = () => this.load().then(() => this.onDidChangeEmitter.fire());
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${POLICY_FILE_NAME}`);
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        this.disposables.push(watcher, vscode.workspace.onDidChangeWorkspaceFolders(reload));
+
+        await reload();
+    }
+
+    /**
+     * The policy for `uri`, from the `.baseline.json` of its workspace folder. Without a
+     * policy target, the `targetBaseline` setting applies. Untitled documents and files
+     * outside the workspace get the top-level policy of the first folder.
+     */
+    getPolicy(uri?: vscode.Uri): FilePolicy {
+        const uriFolder = uri && vscode.workspace.getWorkspaceFolder(uri);
+        const folder = uriFolder || vscode.workspace.workspaceFolders?.[0];
+        const policy = folder ? this.policies.get(folder.uri.toString()) : undefined;
+        const relativePath = uriFolder ? vscode.workspace.asRelativePath(uri!, false) : undefined;
+
+        return resolvePolicy(policy, relativePath, this.getConfiguredTarget());
+    }
+
+    /** Whether any workspace folder has a policy file. */
+    hasPolicy(): boolean {
+        return this.policies.size > 0;
+    }
+
+    private async load(): Promise<void> {
+        this.policies.clear();
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, POLICY_FILE_NAME);
+            let content: string;
+            try {
+                content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+            } catch {
+                continue;
+            }
+
+            try {
+                this.policies.set(folder.uri.toString(), parsePolicy(content));
+            } catch (error) {
+                // An invalid policy is ignored rather than half-applied
+                vscode.window.showWarningMessage(
+                    `${error instanceof Error ? error.message : error} The policy in ${folder.name} is ignored until it is fixed.`
+                );
+            }
+        }
+    }
+
+    private getConfiguredTarget(): BaselineTarget {
+        return vscode.workspace.getConfiguration('baseline-modernizer').get<BaselineTarget>('targetBaseline', 'low');
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { getLanguageForPath, SOURCE_EXTENSIONS } from './codeAnalyzer';
+import { GitignoreFilter } from './gitignore';
+
+export interface ScannedFile {
+    uri: vscode.Uri;
+    relativePath: string;
+    languageId: string;
+}
+
+const SOURCE_GLOB = `**/*.{${SOURCE_EXTENSIONS.join(',')}}`;
+const DEFAULT_EXCLUDE = '**/{node_modules,out,dist,build,coverage,.git}/**';
+
+export class ProjectScanner {
+    /**
+     * Lists the analyzable source files in every workspace folder, honoring the
+     * configured exclude glob and, when enabled, each folder's .gitignore files.
+     */
+    async findFiles(token?: vscode.CancellationToken): Promise<ScannedFile[]> {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const config = vscode.workspace.getConfiguration('baseline-modernizer');
+        const exclude = config.get<string>('exclude', DEFAULT_EXCLUDE) || undefined;
+        const respectGitignore = config.get<boolean>('respectGitignore', true);
+        const files: ScannedFile[] = [];
+
+        for (const folder of folders) {
+            if (token?.isCancellationRequested) break;
+
+            const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, SOURCE_GLOB), exclude, undefined, token);
+            const filter = respectGitignore ? await this.loadGitignore(folder, exclude, token) : undefined;
+
+            uris.forEach(uri => {
+                const folderPath = this.relativeToFolder(folder, uri);
+                if (filter?.isIgnored(folderPath)) return;
+
+                const languageId = getLanguageForPath(uri.path);
+                if (!languageId) return;
+
+                files.push({
+                    uri,
+                    relativePath: vscode.workspace.asRelativePath(uri, folders.length > 1),
+                    languageId
+                });
+            });
+        }
+
+        return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    }
+
+    async readFile(uri: vscode.Uri): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+
+    private async loadGitignore(
+        folder: vscode.WorkspaceFolder,
+        exclude: string | undefined,
+        token?: vscode.CancellationToken
+    ): Promise<GitignoreFilter> {
+        const filter = new GitignoreFilter();
+        const ignoreFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore'), exclude, undefined, token);
+
+        // Parents before children so that nested files can override their ancestors
+        const ordered = ignoreFiles
+            .map(uri => ({ uri, directory: this.relativeToFolder(folder, uri).replace(/\/?\.gitignore$/, '') }))
+            .sort((a, b) => this.depth(a.directory) - this.depth(b.directory));
+
+        for (const ignoreFile of ordered) {
+            try {
+                filter.addFile(ignoreFile.directory, await this.readFile(ignoreFile.uri));
+            } catch (error) {
+                console.warn(`Could not read ${ignoreFile.uri.fsPath}:`, error);
+            }
+        }
+
+        return filter;
+    }
+
+    private depth(directory: string): number {
+        return directory ? directory.split('/').length : 0;
+    }
+
+    private relativeToFolder(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+        return uri.path.slice(folder.uri.path.replace(/\/$/, '').length + 1);
+    }
+}
+
+/** Maps a path produced by `asRelativePath` back to a file URI in the workspace. */
+export function resolveWorkspacePath(relativePath: string): vscode.Uri | undefined {
+    const folders = vscode.workspace.workspaceFolders || [];
+
+    if (folders.length > 1) {
+        const [folderName, ...rest] = relativePath.split('/');
+        const folder = folders.find(candidate => candidate.name === folderName);
+        if (folder) return vscode.Uri.joinPath(folder.uri, ...rest);
+    }
+
+    return folders[0] ? vscode.Uri.joinPath(folders[0].uri, relativePath) : undefined;
+}
@@ -0,0 +1,358 @@
+import { maskSource } from './codeAnalyzer';
+
+export interface FixEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface ModernizationFix {
+    title: string;
+    featureId: string;
+    edits: FixEdit[];
+    isPreferred?: boolean;
+}
+
+const OPENING = '([{';
+const CLOSING = ')]}';
+
+/** The legacy patterns `computeFixes` can rewrite, where the code allows it. */
+export const FIXABLE_PATTERNS = ['var', 'function', 'XMLHttpRequest', '<b><i><u>'];
+
+/**
+ * Computes the rewrites that modernize the legacy pattern starting at `offset`.
+ * Returns an empty list when the code at that location is not safe to rewrite
+ * automatically; callers should then leave it to the developer. Callers checking many
+ * locations can pass the text already masked with `maskSource`.
+ */
+export function computeFixes(
+    text: string,
+    languageId: string,
+    pattern: string,
+    offset: number,
+    masked: string = maskSource(text, languageId)
+): ModernizationFix[] {
+    let fix: ModernizationFix | undefined;
+
+    switch (pattern) {
+        case 'var':
+            fix = fixVarDeclaration(masked, offset);
+            break;
+        case 'function':
+            fix = fixFunctionExpression(text, masked, offset);
+            break;
+        case 'XMLHttpRequest':
+            fix = fixSimpleXhrGet(text, masked, offset);
+            break;
+        case '<b><i><u>':
+            fix = fixPresentationalTag(text, masked, offset);
+            break;
+    }
+
+    return fix ? [fix] : [];
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function skipWhitespace(masked: string, index: number): number {
+    while (index < masked.length && /\s/.test(masked[index])) index++;
+    return index;
+}
+
+function findMatching(masked: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < masked.length; i++) {
+        if (OPENING.includes(masked[i])) depth++;
+        else if (CLOSING.includes(masked[i]) && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitTopLevel(segment: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < segment.length; i++) {
+        if (OPENING.includes(segment[i])) depth++;
+        else if (CLOSING.includes(segment[i])) depth--;
+        else if (segment[i] === separator && depth === 0) {
+            parts.push(segment.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(segment.slice(start));
+
+    return parts;
+}
+
+/** Finds where a declaration starting at `from` ends, following JavaScript's ASI rules loosely. */
+function findDeclarationEnd(masked: string, from: number): number {
+    let depth = 0;
+
+    for (let i = from; i < masked.length; i++) {
+        const ch = masked[i];
+        if (OPENING.includes(ch)) {
+            depth++;
+        } else if (CLOSING.includes(ch)) {
+            if (depth === 0) return i;
+            depth--;
+        } else if (ch === ';' && depth === 0) {
+            return i;
+        } else if (ch === '\n' && depth === 0) {
+            const previous = masked.slice(from, i).trimEnd().slice(-1);
+            const next = masked[skipWhitespace(masked, i)] || '';
+            if (!',=+-*/%&|^?:<>!~'.includes(previous) && !',.+-*/%&|^?:=<>'.includes(next)) {
+                return i;
+            }
+        }
+    }
+
+    return masked.length;
+}
+
+function isReassigned(masked: string, name: string, declarationStart: number, declarationEnd: number): boolean {
+    const id = escapeRegex(name);
+    const patterns = [
+        new RegExp(`(?<![.\\w$])${id}\\s*(?:[-+*/%&|^]|\\*\\*|<<|>>>?|&&|\\|\\||\\?\\?)?=(?![=>])`, 'g'),
+        new RegExp(`(?<![.\\w$])${id}\\s*(?:\\+\\+|--)`, 'g'),
+        new RegExp(`(?:\\+\\+|--)\\s*${id}(?![\\w$])`, 'g')
+    ];
+
+    return patterns.some(regex => {
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(masked)) !== null) {
+            if (match.index < declarationStart || match.index >= declarationEnd) return true;
+        }
+        return false;
+    });
+}
+
+function fixVarDeclaration(masked: string, offset: number): ModernizationFix | undefined {
+    if (!masked.startsWith('var', offset)) return undefined;
+
+    const declarationStart = offset + 3;
+    const declarationEnd = findDeclarationEnd(masked, declarationStart);
+    const segment = masked.slice(declarationStart, declarationEnd);
+    const names: string[] = [];
+    let canBeConst = true;
+
+    const loopBinding = /^\s*([A-Za-z_$][\w$]*)\s+(?:in|of)\b/.exec(segment);
+    if (loopBinding) {
+        names.push(loopBinding[1]);
+    } else {
+        splitTopLevel(segment, ',').forEach(declarator => {
+            const binding = /^\s*([A-Za-z_$][\w$]*)\s*(=)?/.exec(declarator);
+            if (!binding) {
+                // Destructuring patterns: we cannot cheaply prove none of the bindings change
+                canBeConst = false;
+                return;
+            }
+            names.push(binding[1]);
+            if (!binding[2]) canBeConst = false;
+        });
+    }
+
+    if (canBeConst && names.some(name => isReassigned(masked, name, offset, declarationEnd))) {
+        canBeConst = false;
+    }
+
+    const keyword = canBeConst ? 'const' : 'let';
+    return {
+        title: `Replace 'var' with '${keyword}'`,
+        featureId: 'let-const',
+        edits: [{ start: offset, end: offset + 3, newText: keyword }],
+        isPreferred: true
+    };
+}
+
+function fixFunctionExpression(text: string, masked: string, offset: number): ModernizationFix | undefined {
+    const header = /^function\s*([A-Za-z_$][\w$]*)?\s*\(/.exec(masked.slice(offset));
+    if (!header) return undefined;
+
+    const paramsStart = offset + header[0].length - 1;
+    const paramsEnd = findMatching(masked, paramsStart);
+    if (paramsEnd === -1) return undefined;
+
+    // Return type annotations and anything else between ")" and "{" are left alone
+    const bodyStart = skipWhitespace(masked, paramsEnd + 1);
+    if (masked[bodyStart] !== '{') return undefined;
+
+    const bodyEnd = findMatching(masked, bodyStart);
+    if (bodyEnd === -1) return undefined;
+
+    const body = masked.slice(bodyStart, bodyEnd + 1);
+    if (/(?<![.\w$])(?:this|arguments|super)(?![\w$])|new\s*\.\s*target/.test(body)) return undefined;
+
+    const name = header[1];
+    if (name && new RegExp(`(?<![.\\w$])${escapeRegex(name)}(?![\\w$])`).test(body)) return undefined;
+
+    // Arrow functions bind looser than || and &&, and cannot be called or accessed without parentheses
+    const before = masked.slice(0, offset).replace(/async\s*$/, '').trimEnd();
+    const after = masked[skipWhitespace(masked, bodyEnd + 1)] || '';
+    const needsParens = /(?:&&|\|\||\?\?)$/.test(before) || '([.`'.includes(after) && after !== '';
+
+    const params = text.slice(paramsStart, paramsEnd + 1);
+    const edits: FixEdit[] = [{ start: offset, end: bodyStart, newText: `${needsParens ? '(' : ''}${params} => ` }];
+    if (needsParens) {
+        const asyncPrefix = /async\s*$/.exec(masked.slice(0, offset));
+        if (asyncPrefix) {
+            edits[0] = { start: offset - asyncPrefix[0].length, end: bodyStart, newText: `(async ${params} => ` };
+        }
+        edits.push({ start: bodyEnd + 1, end: bodyEnd + 1, newText: ')' });
+    }
+
+    return {
+        title: 'Convert function expression to arrow function',
+        featureId: 'arrow-functions',
+        edits,
+        isPreferred: true
+    };
+}
+
+/**
+ * Rewrites the classic four-statement XHR GET (create, open, onload, send) into a
+ * fetch() call. Anything beyond that shape, such as custom headers, error handlers or
+ * later uses of the request object, is left untouched.
+ */
+function fixSimpleXhrGet(text: string, masked: string, offset: number): ModernizationFix | undefined {
+    const lineStart = masked.lastIndexOf('\n', offset) + 1;
+    const prefix = /(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*new\s+$/.exec(masked.slice(lineStart, offset));
+    if (!prefix) return undefined;
+
+    const start = lineStart + prefix.index;
+    const name = prefix[1];
+    const id = escapeRegex(name);
+    const declaration = /(?:var|let|const)\s+[A-Za-z_$][\w$]*\s*=\s*new\s+XMLHttpRequest\s*\(\s*\)\s*;?/y;
+    declaration.lastIndex = start;
+    const declared = declaration.exec(masked);
+    if (!declared) return undefined;
+
+    const openCall = new RegExp(`${id}\\s*\\.\\s*open\\s*\\(`, 'y');
+    const onloadAssignment = new RegExp(`${id}\\s*\\.\\s*onload\\s*=\\s*(?:function\\s*\\(\\s*\\)|\\(\\s*\\)\\s*=>)\\s*(?=\\{)`, 'y');
+    const sendCall = new RegExp(`${id}\\s*\\.\\s*send\\s*\\(\\s*(?:null\\s*)?\\)\\s*;?`, 'y');
+
+    let cursor = start + declared[0].length;
+    let url: string | undefined;
+    let body: { start: number; end: number } | undefined;
+    let sent = false;
+
+    for (let statement = 0; statement < 3; statement++) {
+        cursor = skipWhitespace(masked, cursor);
+
+        openCall.lastIndex = cursor;
+        onloadAssignment.lastIndex = cursor;
+        sendCall.lastIndex = cursor;
+
+        let match: RegExpExecArray | null;
+        if (!url && (match = openCall.exec(masked))) {
+            const argsStart = cursor + match[0].length - 1;
+            const argsEnd = findMatching(masked, argsStart);
+            if (argsEnd === -1) return undefined;
+
+            const args = splitTopLevel(text.slice(argsStart + 1, argsEnd), ',').map(arg => arg.trim());
+            if (!/^(['"])GET\1$/i.test(args[0]) || !args[1] || args.length > 3 || (args[2] && args[2] !== 'true')) {
+                return undefined;
+            }
+            url = args[1];
+            cursor = argsEnd + 1;
+        } else if (!body && (match = onloadAssignment.exec(masked))) {
+            const bodyStart = cursor + match[0].length;
+            const bodyEnd = findMatching(masked, bodyStart);
+            if (bodyEnd === -1) return undefined;
+            body = { start: bodyStart, end: bodyEnd };
+            cursor = bodyEnd + 1;
+        } else if (url && !sent && (match = sendCall.exec(masked))) {
+            sent = true;
+            cursor += match[0].length;
+            continue;
+        } else {
+            return undefined;
+        }
+
+        if (masked[skipWhitespace(masked, cursor)] === ';') {
+            cursor = skipWhitespace(masked, cursor) + 1;
+        }
+    }
+
+    if (!url || !body || !sent) return undefined;
+
+    // The request object must not be used anywhere else in the enclosing block
+    let blockEnd = cursor;
+    for (let depth = 0; blockEnd < masked.length; blockEnd++) {
+        if (OPENING.includes(masked[blockEnd])) depth++;
+        else if (CLOSING.includes(masked[blockEnd]) && depth-- === 0) break;
+    }
+    const usage = new RegExp(`(?<![.\\w$])${id}(?![\\w$])`);
+    if (usage.test(masked.slice(cursor, blockEnd))) return undefined;
+
+    const maskedBody = masked.slice(body.start, body.end + 1);
+    if (/(?<![.\w$])this(?![\w$])/.test(maskedBody)) return undefined;
+
+    const replacements: FixEdit[] = [];
+    let usesResponse = false;
+    const member = new RegExp(`(?<![.\\w$])${id}(?![\\w$])(\\s*\\.\\s*([A-Za-z_$][\\w$]*))?`, 'g');
+    let use: RegExpExecArray | null;
+    while ((use = member.exec(maskedBody)) !== null) {
+        const property = use[2];
+        let replacement: string;
+        if (property === 'responseText' || property === 'response') {
+            replacement = 'responseText';
+        } else if (property === 'status' || property === 'statusText') {
+            replacement = `response.${property}`;
+            usesResponse = true;
+        } else {
+            return undefined;
+        }
+        replacements.push({ start: use.index, end: use.index + use[0].length, newText: replacement });
+    }
+
+    let newBody = text.slice(body.start, body.end + 1);
+    for (let i = replacements.length - 1; i >= 0; i--) {
+        const edit = replacements[i];
+        newBody = newBody.slice(0, edit.start) + edit.newText + newBody.slice(edit.end);
+    }
+
+    const newText = usesResponse
+        ? `fetch(${url}).then(response => response.text().then(responseText => ${newBody}));`
+        : `fetch(${url}).then(response => response.text()).then(responseText => ${newBody});`;
+
+    return {
+        title: 'Rewrite XMLHttpRequest GET with fetch()',
+        featureId: 'fetch',
+        edits: [{ start, end: cursor, newText }],
+        isPreferred: true
+    };
+}
+
+function fixPresentationalTag(text: string, masked: string, offset: number): ModernizationFix | undefined {
+    const opening = /^<([bi])(?=[\s>])/i.exec(text.slice(offset, offset + 3));
+    if (!opening) return undefined;
+
+    const tag = opening[1].toLowerCase();
+    const replacement = tag === 'b' ? 'strong' : 'em';
+    const tags = new RegExp(`<(/?)${tag}(?=[\\s>])[^>]*>`, 'gi');
+    tags.lastIndex = offset + 2;
+
+    let depth = 1;
+    let match: RegExpExecArray | null;
+    while ((match = tags.exec(masked)) !== null) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) {
+            return {
+                title: `Replace <${tag}> with <${replacement}>`,
+                featureId: 'semantic-formatting',
+                edits: [
+                    { start: offset + 1, end: offset + 2, newText: replacement },
+                    { start: match.index + 2, end: match.index + 3, newText: replacement }
+                ],
+                isPreferred: true
+            };
+        }
+    }
+
+    return undefined;
+}
+
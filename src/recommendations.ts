@@ -0,0 +1,228 @@
+import { BaselineService, BaselineTarget, describeStatus } from './baselineService';
+import { FileAnalysis } from './metricsTracker';
+import { FilePolicy, getFindingSeverity, POLICY_FILE_NAME, PolicySeverity } from './policy';
+import { aggregateScores } from './scoring';
+
+/** What a recommendation's button does; the dashboard carries it out in `applyRecommendation`. */
+export type RecommendationAction =
+    | { kind: 'showProblems' }
+    // Applies a legacy pattern's quick fixes across the workspace
+    | { kind: 'applyFixes'; pattern: string }
+    // Locations of one pattern, or the listed files when there is none
+    | { kind: 'showFiles'; pattern?: string };
+
+export interface Recommendation {
+    // Stable across analyses, e.g. `modernize:var` or `target:dialog`
+    id: string;
+    type: 'priority' | 'warning' | 'suggestion' | 'info';
+    title: string;
+    description: string;
+    impact: 'High' | 'Medium' | 'Low';
+    // A rough estimate such as "~2 hours", from the number and kind of changes
+    effort: string;
+    files: string[];
+    action: string;
+    command: RecommendationAction;
+}
+
+interface PatternUsage {
+    pattern: string;
+    count: number;
+    fixable: number;
+    files: Set<string>;
+    severities: Set<PolicySeverity>;
+    // Targets of the files whose policy the pattern falls short of
+    missedTargets: Set<BaselineTarget>;
+}
+
+// Minutes to review one automatic rewrite, modernize one usage by hand, and add a fallback for one feature usage
+const MINUTES_PER_FIX = 1;
+const MINUTES_PER_MANUAL_CHANGE = 5;
+const MINUTES_PER_FALLBACK = 15;
+
+// Files scoring below this are listed as hotspots
+const HOTSPOT_SCORE = 50;
+
+// What the quick fixes of each pattern change
+const FIX_DESCRIPTIONS: Record<string, string> = {
+    XMLHttpRequest: 'simple GET requests become fetch() calls',
+    var: 'declarations become let or const',
+    function: 'function expressions become arrow functions',
+    '<b><i><u>': 'presentational tags become semantic ones'
+};
+
+const TYPE_ORDER: Recommendation['type'][] = ['priority', 'warning', 'suggestion', 'info'];
+const IMPACT_ORDER: Recommendation['impact'][] = ['High', 'Medium', 'Low'];
+
+/**
+ * Derives recommendations from the latest analysis of each file, under each file's
+ * policy. Findings the policy turns off are ignored. Rules:
+ * - features used below a file's Baseline target, one recommendation each
+ * - other findings the policy makes errors, e.g. denied patterns
+ * - each legacy pattern, with quick fixes when some of its uses can be rewritten
+ * - files whose Baseline score is below HOTSPOT_SCORE
+ * Impact follows the points a pattern costs the project's Baseline score.
+ */
+export function generateRecommendations(
+    files: FileAnalysis[],
+    baselineService: BaselineService,
+    getPolicy: (fileName: string) => FilePolicy
+): Recommendation[] {
+    const usage = collectUsage(files, baselineService, getPolicy);
+    const points = new Map(aggregateScores(files, baselineService).breakdown.map(cost => [cost.pattern, cost.points]));
+    const impactOf = (pattern: string) => getImpact(points.get(pattern) || 0);
+    const recommendations: Recommendation[] = [];
+
+    const belowTarget = usage.filter(entry => entry.missedTargets.size > 0);
+    belowTarget.forEach(entry => {
+        const feature = baselineService.getFeatureInfo(entry.pattern)!;
+        const targets = Array.from(entry.missedTargets).map(target => `"${target}"`).join(' or ');
+        recommendations.push({
+            id: `target:${entry.pattern}`,
+            type: entry.severities.has('error') ? 'priority' : 'warning',
+            title: `Review ${feature.name} Against Your Baseline Target`,
+            description: `You use ${entry.pattern} (${describeStatus(feature, 'label')}) ${times(entry.count)} in ${plural(entry.files.size, 'file')}, ` +
+                `but your target is ${targets}. Add a fallback, or allow it in ${POLICY_FILE_NAME} where it is a progressive enhancement.`,
+            impact: feature.status.baseline === 'low' ? 'Medium' : 'High',
+            effort: estimateEffort(entry.count * MINUTES_PER_FALLBACK),
+            files: sortedFiles(entry.files),
+            action: 'Review Usage',
+            command: { kind: 'showFiles', pattern: entry.pattern }
+        });
+    });
+
+    const violations = usage.filter(entry => entry.severities.has('error') && entry.missedTargets.size === 0);
+    if (violations.length > 0) {
+        const count = violations.reduce((total, entry) => total + entry.count, 0);
+        const violationFiles = new Set(violations.flatMap(entry => Array.from(entry.files)));
+        const patterns = violations.map(entry => entry.pattern);
+        recommendations.push({
+            id: 'policy-violations',
+            type: 'priority',
+            title: `Resolve ${plural(count, 'Policy Violation')}`,
+            description: `${plural(count, 'finding')} in ${plural(violationFiles.size, 'file')} ${count === 1 ? 'breaks' : 'break'} the rules in ${POLICY_FILE_NAME}: ` +
+                `${patterns.slice(0, 3).join(', ')}${patterns.length > 3 ? ` and ${patterns.length - 3} more` : ''}.`,
+            impact: 'High',
+            effort: estimateEffort(count * MINUTES_PER_MANUAL_CHANGE),
+            files: sortedFiles(violationFiles),
+            action: 'Show Problems',
+            command: { kind: 'showProblems' }
+        });
+    }
+
+    usage.filter(entry => baselineService.isLegacyPattern(entry.pattern)).forEach(entry => {
+        const impact = impactOf(entry.pattern);
+        const manual = entry.count - entry.fixable;
+        const alternative = baselineService.getModernAlternatives(entry.pattern)[0];
+        const files = sortedFiles(entry.files);
+        const effort = estimateEffort(entry.fixable * MINUTES_PER_FIX + manual * MINUTES_PER_MANUAL_CHANGE);
+        const stillUsed = `${entry.pattern} is still used ${times(entry.count)} in ${plural(entry.files.size, 'file')}`;
+
+        if (entry.fixable > 0) {
+            recommendations.push({
+                id: `modernize:${entry.pattern}`,
+                type: impact === 'High' ? 'priority' : 'suggestion',
+                title: `Apply Quick Fixes for ${entry.pattern}`,
+                description: `${stillUsed}. Quick fixes can modernize ${entry.fixable} of them` +
+                    (FIX_DESCRIPTIONS[entry.pattern] ? `: ${FIX_DESCRIPTIONS[entry.pattern]}.` : '.'),
+                impact,
+                effort,
+                files,
+                action: 'Apply Quick Fixes',
+                command: { kind: 'applyFixes', pattern: entry.pattern }
+            });
+        } else {
+            recommendations.push({
+                id: `modernize:${entry.pattern}`,
+                type: impact === 'High' ? 'warning' : 'suggestion',
+                title: `Modernize ${entry.pattern}`,
+                description: `${stillUsed}, with no automatic fix.` +
+                    (alternative ? ` Consider ${alternative.replacement}: ${alternative.description}.` : ''),
+                impact,
+                effort,
+                files,
+                action: 'Show Locations',
+                command: { kind: 'showFiles', pattern: entry.pattern }
+            });
+        }
+    });
+
+    const hotspots = files.filter(file => file.issuesFound > 0 && file.baselineScore < HOTSPOT_SCORE)
+        .sort((a, b) => a.baselineScore - b.baselineScore || a.fileName.localeCompare(b.fileName));
+    if (hotspots.length > 0) {
+        const issues = hotspots.reduce((total, file) => total + file.issuesFound, 0);
+        recommendations.push({
+            id: 'hotspots',
+            type: 'warning',
+            title: `Focus on ${plural(hotspots.length, 'Low-Scoring File')}`,
+            description: `${hotspots.slice(0, 3).map(file => `${file.fileName} (${file.baselineScore})`).join(', ')}` +
+                `${hotspots.length > 3 ? ` and ${hotspots.length - 3} more` : ''} ${hotspots.length === 1 ? 'scores' : 'score'} below ${HOTSPOT_SCORE}, ` +
+                `with ${plural(issues, 'finding')} in total.`,
+            impact: 'Medium',
+            effort: estimateEffort(issues * MINUTES_PER_MANUAL_CHANGE),
+            files: hotspots.map(file => file.fileName),
+            action: 'Show Files',
+            command: { kind: 'showFiles' }
+        });
+    }
+
+    return recommendations.sort((a, b) =>
+        TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+        IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) ||
+        a.id.localeCompare(b.id));
+}
+
+/** Findings per pattern across all files, most used first, without those the policy turns off. */
+function collectUsage(
+    files: FileAnalysis[],
+    baselineService: BaselineService,
+    getPolicy: (fileName: string) => FilePolicy
+): PatternUsage[] {
+    const usage = new Map<string, PatternUsage>();
+
+    files.forEach(file => {
+        const policy = getPolicy(file.fileName);
+        file.patterns.forEach(pattern => {
+            const severity = getFindingSeverity(policy, pattern.pattern, baselineService);
+            if (severity === 'off') return;
+
+            let entry = usage.get(pattern.pattern);
+            if (!entry) {
+                entry = { pattern: pattern.pattern, count: 0, fixable: 0, files: new Set(), severities: new Set(), missedTargets: new Set() };
+                usage.set(pattern.pattern, entry);
+            }
+            entry.count += pattern.count;
+            entry.fixable += pattern.locations.filter(location => location.fixable).length;
+            entry.files.add(file.fileName);
+            entry.severities.add(severity);
+            if (baselineService.isBelowTarget(pattern.pattern, policy.target)) entry.missedTargets.add(policy.target);
+        });
+    });
+
+    return Array.from(usage.values()).sort((a, b) => b.count - a.count || a.pattern.localeCompare(b.pattern));
+}
+
+function getImpact(points: number): Recommendation['impact'] {
+    if (points >= 10) return 'High';
+    if (points >= 3) return 'Medium';
+    return 'Low';
+}
+
+/** Rounds an estimate in minutes to what a plan would say, with 8-hour days. */
+function estimateEffort(minutes: number): string {
+    if (minutes < 60) return `~${Math.max(5, Math.ceil(minutes / 5) * 5)} minutes`;
+    if (minutes < 8 * 60) return `~${plural(Math.ceil(minutes / 60), 'hour')}`;
+    return `~${plural(Math.ceil(minutes / (8 * 60)), 'day')}`;
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function times(count: number): string {
+    return count === 1 ? 'once' : `${count} times`;
+}
+
+function sortedFiles(files: Set<string>): string[] {
+    return Array.from(files).sort();
+}
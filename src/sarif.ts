@@ -0,0 +1,195 @@
+import { AnalysisResult, BaselineFeatureInfo, BaselineService, BaselineTarget, describeStatus, ModernAlternative } from './baselineService';
+import { FilePolicy, getFindingSeverity, PolicySeverity, resolvePolicy } from './policy';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+/** Baseline details attached to rules and results as SARIF property bags. */
+interface BaselineProperties {
+    featureId?: string;
+    baselineStatus: 'high' | 'low' | false | 'unknown';
+    baselineLowDate?: string;
+    baselineHighDate?: string;
+    legacyPattern: boolean;
+    belowTarget: boolean;
+}
+
+interface SarifRule {
+    id: string;
+    name: string;
+    shortDescription: { text: string };
+    fullDescription: { text: string };
+    help: { text: string; markdown: string };
+    helpUri?: string;
+    defaultConfiguration: { level: SarifLevel };
+    properties: BaselineProperties & { tags: string[] };
+}
+
+interface SarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: SarifLevel;
+    message: { text: string };
+    locations: Array<{
+        physicalLocation: {
+            artifactLocation: { uri: string; uriBaseId: string };
+            region: { startLine: number; startColumn: number; endColumn?: number };
+        };
+    }>;
+    properties: BaselineProperties;
+}
+
+/** The subset of a SARIF 2.1.0 log that the exporter writes. */
+export interface SarifLog {
+    $schema: string;
+    version: '2.1.0';
+    runs: Array<{
+        tool: { driver: { name: string; version?: string; informationUri: string; rules: SarifRule[] } };
+        results: SarifResult[];
+    }>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://web.dev/baseline';
+
+const SARIF_LEVELS: Record<Exclude<PolicySeverity, 'off'>, SarifLevel> = {
+    error: 'error',
+    warning: 'warning',
+    info: 'note',
+    hint: 'note'
+};
+
+/**
+ * Converts analysis results into a SARIF log with one rule per pattern. Used web
+ * features below `target` are errors, legacy patterns with a modern alternative are
+ * warnings and everything else is a note. Rules carry the migration guide, benefits
+ * and caveats as help text, and every result carries the feature's Baseline status.
+ * `getPolicy` supplies each file's `.baseline.json` policy, which can change a result's
+ * level or leave it out. File names become URIs relative to `%SRCROOT%`.
+ */
+export function createSarifLog(
+    results: Array<Pick<AnalysisResult, 'fileName' | 'patterns'>>,
+    baselineService: BaselineService,
+    target: BaselineTarget,
+    toolVersion?: string,
+    getPolicy: (fileName: string) => FilePolicy = () => resolvePolicy(undefined, undefined, target)
+): SarifLog {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const sarifResults: SarifResult[] = [];
+
+    results.forEach(result => {
+        const policy = getPolicy(result.fileName);
+
+        result.patterns.forEach(pattern => {
+            const severity = getFindingSeverity(policy, pattern.pattern, baselineService);
+            if (severity === 'off') return;
+
+            let ruleIndex = ruleIndexes.get(pattern.pattern);
+            if (ruleIndex === undefined) {
+                ruleIndex = rules.length;
+                ruleIndexes.set(pattern.pattern, ruleIndex);
+                rules.push(createRule(pattern.pattern, baselineService, target));
+            }
+
+            const rule = rules[ruleIndex];
+            pattern.locations.forEach(location => {
+                sarifResults.push({
+                    ruleId: rule.id,
+                    ruleIndex: ruleIndex!,
+                    level: SARIF_LEVELS[severity],
+                    message: { text: location.suggestion },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri: encodeURI(result.fileName.replace(/\\/g, '/')), uriBaseId: '%SRCROOT%' },
+                            region: {
+                                startLine: location.line,
+                                startColumn: location.column,
+                                endColumn: location.length ? location.column + location.length : undefined
+                            }
+                        }
+                    }],
+                    properties: {
+                        ...baselineProperties(rule.properties),
+                        belowTarget: baselineService.isBelowTarget(pattern.pattern, policy.target)
+                    }
+                });
+            });
+        });
+    });
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: 'Baseline Modernizer', version: toolVersion, informationUri: INFORMATION_URI, rules } },
+            results: sarifResults
+        }]
+    };
+}
+
+function createRule(pattern: string, baselineService: BaselineService, target: BaselineTarget): SarifRule {
+    const alternative = baselineService.getModernAlternatives(pattern)[0];
+    const feature = alternative
+        ? baselineService.getFeatureInfo(alternative.feature)
+        : baselineService.getFeatureInfo(pattern);
+    const belowTarget = baselineService.isBelowTarget(pattern, target);
+
+    const level: SarifLevel = alternative ? 'warning' : belowTarget ? 'error' : 'note';
+    const shortDescription = alternative
+        ? `Use ${alternative.replacement} instead of ${pattern}`
+        : `Uses ${feature?.name || pattern}`;
+    const fullDescription = alternative?.description || feature?.description || shortDescription;
+
+    return {
+        id: pattern,
+        name: alternative ? alternative.replacement : feature?.name || pattern,
+        shortDescription: { text: shortDescription },
+        fullDescription: { text: fullDescription },
+        help: createHelp(fullDescription, alternative, feature),
+        helpUri: feature ? baselineService.getFeatureUrl(feature) : undefined,
+        defaultConfiguration: { level },
+        properties: {
+            tags: ['baseline', ...(feature ? [feature.group] : [])],
+            featureId: alternative?.feature || feature?.id,
+            baselineStatus: feature ? feature.status.baseline ?? 'unknown' : alternative?.baselineStatus ?? 'unknown',
+            baselineLowDate: feature?.status.baseline_low_date,
+            baselineHighDate: feature?.status.baseline_high_date,
+            legacyPattern: Boolean(alternative),
+            belowTarget
+        }
+    };
+}
+
+/** The Baseline part of a rule's property bag, without the rule-only tags. */
+function baselineProperties({ tags, ...properties }: SarifRule['properties']): BaselineProperties {
+    return properties;
+}
+
+/** Plain-text and Markdown help built from the alternative's migration guide, benefits and caveats. */
+function createHelp(description: string, alternative: ModernAlternative | undefined, feature: BaselineFeatureInfo | undefined): SarifRule['help'] {
+    const text = [description];
+    const markdown = [description];
+    const section = (title: string, items: string[] | undefined) => {
+        if (!items || items.length === 0) return;
+        text.push(`${title}:\n${items.map(item => `- ${item}`).join('\n')}`);
+        markdown.push(`**${title}**\n\n${items.map(item => `- ${item}`).join('\n')}`);
+    };
+
+    if (feature) {
+        const status = describeStatus(feature, 'label');
+        text.push(`Baseline status of ${feature.name}: ${status}.`);
+        markdown.push(`Baseline status of ${feature.name}: **${status}**.`);
+    }
+    if (alternative?.migrationGuide) {
+        text.push(`Migration: ${alternative.migrationGuide}`);
+        markdown.push(`**Migration**\n\n${alternative.migrationGuide}`);
+    }
+    section('Benefits', alternative?.benefits);
+    section('Caveats', alternative?.caveats);
+    if (alternative?.example) {
+        text.push(`Example:\n${alternative.example}`);
+        markdown.push(`**Example**\n\n\`\`\`\n${alternative.example}\n\`\`\``);
+    }
+
+    return { text: text.join('\n\n'), markdown: markdown.join('\n\n') };
+}
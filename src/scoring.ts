@@ -0,0 +1,110 @@
+import { BaselineService, ScoreContribution } from './baselineService';
+
+/** A Baseline score from 0 to 100 with the points each pattern costs. */
+export interface BaselineScore {
+    score: number;
+    // Most costly first; the points add up to 100 minus the score
+    breakdown: ScoreContribution[];
+}
+
+// Cost of one use of a legacy pattern, by how far it holds the code back
+const LEGACY_SEVERITY: Record<string, number> = {
+    XMLHttpRequest: 2,
+    float: 1.5,
+    'presentational-html': 1.5,
+    var: 1,
+    clearfix: 1,
+    function: 0.5,
+    '<div>': 0.5,
+    '<b><i><u>': 0.5,
+    'vendor-prefix': 0.5
+};
+const DEFAULT_LEGACY_SEVERITY = 1;
+
+const LIMITED_WEIGHT = 3;
+// Newly available features cost this much on their Baseline low date, falling to
+// NEWLY_AVAILABLE_MIN_WEIGHT by the time they are expected to become widely available
+const NEWLY_AVAILABLE_MAX_WEIGHT = 2;
+const NEWLY_AVAILABLE_MIN_WEIGHT = 1;
+const MONTHS_TO_WIDELY_AVAILABLE = 30;
+
+// Small files are scored as if they had this many lines, so one finding does not sink them
+const MIN_LINES = 50;
+// Weighted usages per 100 lines that halve the score
+const HALF_SCORE_DENSITY = 5;
+
+/**
+ * The cost of one usage of `pattern`: a severity for legacy patterns, and for web
+ * features a weight by Baseline status, where newly available features cost less the
+ * longer they have been available. Widely available features cost nothing.
+ */
+export function getUsageWeight(pattern: string, baselineService: BaselineService, now: Date = new Date()): { weight: number; reason: string } {
+    if (baselineService.isLegacyPattern(pattern)) {
+        const severity = LEGACY_SEVERITY[pattern] ?? DEFAULT_LEGACY_SEVERITY;
+        return { weight: severity, reason: `legacy pattern, severity ${severity}` };
+    }
+
+    const feature = baselineService.getFeatureInfo(pattern);
+    if (!feature) return { weight: DEFAULT_LEGACY_SEVERITY, reason: 'unknown pattern' };
+
+    const { baseline, baseline_low_date: lowDate } = feature.status;
+    if (baseline === 'high') return { weight: 0, reason: 'widely available' };
+    if (baseline !== 'low') return { weight: LIMITED_WEIGHT, reason: 'limited availability' };
+    if (!lowDate) return { weight: NEWLY_AVAILABLE_MAX_WEIGHT, reason: 'newly available' };
+
+    const months = Math.max(0, (now.getTime() - new Date(lowDate).getTime()) / (30.44 * 24 * 60 * 60 * 1000));
+    const remaining = Math.max(0, 1 - months / MONTHS_TO_WIDELY_AVAILABLE);
+    const weight = round(NEWLY_AVAILABLE_MIN_WEIGHT + (NEWLY_AVAILABLE_MAX_WEIGHT - NEWLY_AVAILABLE_MIN_WEIGHT) * remaining, 2);
+    return { weight, reason: `newly available since ${lowDate}` };
+}
+
+/**
+ * Scores code with `lineCount` lines that uses `patterns`. The weighted usages per 100
+ * lines set the score, which halves for every HALF_SCORE_DENSITY of them; the points
+ * lost are then split between the patterns by their share of the total weight.
+ */
+export function calculateScore(
+    patterns: Array<{ pattern: string; count: number }>,
+    lineCount: number,
+    baselineService: BaselineService,
+    now: Date = new Date()
+): BaselineScore {
+    const usages = new Map<string, number>();
+    patterns.forEach(({ pattern, count }) => usages.set(pattern, (usages.get(pattern) || 0) + count));
+
+    const weighted = Array.from(usages.entries()).map(([pattern, count]) => ({ pattern, count, ...getUsageWeight(pattern, baselineService, now) }));
+    const totalWeight = weighted.reduce((total, usage) => total + usage.count * usage.weight, 0);
+    if (totalWeight === 0) return { score: 100, breakdown: [] };
+
+    const density = totalWeight * 100 / Math.max(lineCount, MIN_LINES);
+    const exactScore = 100 * Math.pow(0.5, density / HALF_SCORE_DENSITY);
+    const lost = 100 - exactScore;
+
+    return {
+        score: Math.round(exactScore),
+        breakdown: weighted
+            .filter(usage => usage.weight > 0)
+            .map(usage => ({ ...usage, points: round(lost * usage.count * usage.weight / totalWeight, 1) }))
+            .sort((a, b) => b.points - a.points || a.pattern.localeCompare(b.pattern))
+    };
+}
+
+/**
+ * Scores a whole project as one body of code, so large files weigh more than small
+ * ones. Each file counts with at least MIN_LINES lines, as it does on its own.
+ */
+export function aggregateScores(
+    files: Array<{ patterns: Array<{ pattern: string; count: number }>; lineCount: number }>,
+    baselineService: BaselineService,
+    now: Date = new Date()
+): BaselineScore {
+    if (files.length === 0) return { score: 100, breakdown: [] };
+
+    const lineCount = files.reduce((total, file) => total + Math.max(file.lineCount, MIN_LINES), 0);
+    return calculateScore(files.flatMap(file => file.patterns), lineCount, baselineService, now);
+}
+
+function round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+}
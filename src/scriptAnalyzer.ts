@@ -0,0 +1,518 @@
+import * as ts from 'typescript';
+import { BaselineService, describeStatus, PatternMatch } from './baselineService';
+
+const SCRIPT_KINDS: Record<string, { kind: ts.ScriptKind; extension: string }> = {
+    javascript: { kind: ts.ScriptKind.JS, extension: 'js' },
+    javascriptreact: { kind: ts.ScriptKind.JSX, extension: 'jsx' },
+    typescript: { kind: ts.ScriptKind.TS, extension: 'ts' },
+    typescriptreact: { kind: ts.ScriptKind.TSX, extension: 'tsx' }
+};
+
+// Names that refer to the global object itself, so `window.fetch` is the global `fetch`
+const GLOBAL_OBJECTS = ['window', 'self', 'globalThis'];
+
+// Global instances and the interface their members are tracked under (`api.Navigator.clipboard`)
+const GLOBAL_INSTANCES: Record<string, string> = {
+    navigator: 'Navigator',
+    document: 'Document',
+    location: 'Location',
+    history: 'History',
+    screen: 'Screen',
+    performance: 'Performance',
+    crypto: 'Crypto',
+    localStorage: 'Storage',
+    sessionStorage: 'Storage',
+    caches: 'CacheStorage',
+    console: 'console'
+};
+
+// Without type information the receiver of `x.at()` is unknown, so only method names that
+// are distinctive for these built-ins are looked up
+const INSTANCE_METHODS: Record<string, string[]> = {
+    at: ['Array', 'String'],
+    findLast: ['Array'],
+    findLastIndex: ['Array'],
+    toReversed: ['Array'],
+    toSorted: ['Array'],
+    toSpliced: ['Array'],
+    flat: ['Array'],
+    flatMap: ['Array'],
+    replaceAll: ['String'],
+    isWellFormed: ['String'],
+    toWellFormed: ['String'],
+    union: ['Set'],
+    intersection: ['Set'],
+    difference: ['Set'],
+    symmetricDifference: ['Set'],
+    isSubsetOf: ['Set'],
+    isSupersetOf: ['Set'],
+    isDisjointFrom: ['Set']
+};
+
+/**
+ * Parses JavaScript and TypeScript with the TypeScript compiler and maps syntax and
+ * global APIs onto browser-compat-data keys such as `javascript.operators.optional_chaining`
+ * or `api.Navigator.clipboard`, which BaselineService resolves to web features. Globals are
+ * resolved against the declarations in the file, so a local `fetch` is never reported.
+ * Also reports the legacy patterns that have a modern alternative: `var` declarations,
+ * function expressions and XMLHttpRequest.
+ */
+export class ScriptAnalyzer {
+    private baselineService: BaselineService;
+
+    constructor(baselineService: BaselineService) {
+        this.baselineService = baselineService;
+    }
+
+    analyze(text: string, languageId: string): PatternMatch[] {
+        const sourceFile = parseScript(text, languageId);
+        const scopes = collectDeclarations(sourceFile);
+
+        const matches: PatternMatch[] = [];
+        const seen = new Set<string>();
+        const report = (match: PatternMatch) => {
+            const key = `${match.pattern}@${match.offset}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                matches.push(match);
+            }
+        };
+
+        const visit = (node: ts.Node) => {
+            if (isTypeOnly(node)) return;
+            this.visitNode(node, sourceFile, scopes, report);
+            ts.forEachChild(node, visit);
+        };
+        ts.forEachChild(sourceFile, visit);
+
+        return matches.sort((a, b) => a.offset - b.offset);
+    }
+
+    private visitNode(node: ts.Node, sourceFile: ts.SourceFile, scopes: Map<ts.Node, Set<string>>, report: (match: PatternMatch) => void): void {
+        const isGlobal = (identifier: ts.Identifier) => !isDeclaredLocally(identifier, scopes);
+
+        if (ts.isVariableDeclarationList(node)) {
+            this.visitVariableDeclarationList(node, sourceFile, scopes, report);
+        } else if (ts.isFunctionExpression(node) && !node.asteriskToken) {
+            const keyword = node.getChildren(sourceFile).find(child => child.kind === ts.SyntaxKind.FunctionKeyword);
+            if (keyword) {
+                report({
+                    pattern: 'function',
+                    offset: keyword.getStart(sourceFile),
+                    length: 'function'.length,
+                    suggestion: 'Convert this function expression to an arrow function',
+                    fixable: canBeArrowFunction(node, sourceFile)
+                });
+            }
+        } else if (ts.isSpreadElement(node)) {
+            const key = ts.isArrayLiteralExpression(node.parent)
+                ? 'javascript.operators.spread.spread_in_arrays'
+                : 'javascript.operators.spread.spread_in_function_calls';
+            this.reportKey(key, node.getStart(sourceFile), 3, '...', report);
+        } else if (ts.isSpreadAssignment(node)) {
+            this.reportKey('javascript.operators.spread.spread_in_object_literals', node.getStart(sourceFile), 3, '...', report);
+        } else if (ts.isPropertyDeclaration(node)) {
+            this.visitClassField(node, sourceFile, report);
+        } else if (ts.isAwaitExpression(node) && isTopLevel(node)) {
+            this.reportKey('javascript.operators.await.top_level', node.getStart(sourceFile), 'await'.length, 'await', report);
+        } else if (ts.isForOfStatement(node) && node.awaitModifier && isTopLevel(node)) {
+            this.reportKey('javascript.operators.await.top_level', node.awaitModifier.getStart(sourceFile), 'await'.length, 'for await', report);
+        } else if (ts.isIdentifier(node) && isReference(node) && isGlobal(node)) {
+            this.visitGlobal(node, sourceFile, report);
+        }
+
+        if ((ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) && node.questionDotToken) {
+            this.reportKey('javascript.operators.optional_chaining', node.questionDotToken.getStart(sourceFile), 2, '?.', report);
+        }
+
+        if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.name)) {
+            const receiver = node.expression;
+            if (ts.isIdentifier(receiver) && isGlobal(receiver)) {
+                this.visitGlobalMember(node, receiver.text, node.name.text, sourceFile, report);
+            } else if (ts.isCallExpression(node.parent) && node.parent.expression === node) {
+                this.visitInstanceMethod(node.name, sourceFile, report);
+            }
+        }
+    }
+
+    private visitVariableDeclarationList(
+        node: ts.VariableDeclarationList,
+        sourceFile: ts.SourceFile,
+        scopes: Map<ts.Node, Set<string>>,
+        report: (match: PatternMatch) => void
+    ): void {
+        if (node.flags & ts.NodeFlags.BlockScoped || node.declarations.length === 0) return;
+        // `declare var` only describes a global that exists elsewhere
+        if (ts.getCombinedModifierFlags(node.declarations[0]) & ts.ModifierFlags.Ambient) return;
+
+        report({
+            pattern: 'var',
+            offset: node.getStart(sourceFile),
+            length: 'var'.length,
+            suggestion: 'Replace var with const (never reassigned) or let (reassigned)',
+            fixable: canBeBlockScoped(node, sourceFile, scopes)
+        });
+    }
+
+    private visitClassField(node: ts.PropertyDeclaration, sourceFile: ts.SourceFile, report: (match: PatternMatch) => void): void {
+        if (!ts.isClassLike(node.parent)) return;
+        // Declared and abstract properties are type annotations that never become fields
+        if (ts.getCombinedModifierFlags(node) & (ts.ModifierFlags.Ambient | ts.ModifierFlags.Abstract)) return;
+
+        const key = ts.isPrivateIdentifier(node.name)
+            ? 'javascript.classes.private_class_fields'
+            : ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Static
+                ? 'javascript.classes.static_class_fields'
+                : 'javascript.classes.public_class_fields';
+        const name = node.name.getText(sourceFile);
+        this.reportKey(key, node.name.getStart(sourceFile), name.length, name, report);
+    }
+
+    /** A free identifier such as `structuredClone` or `XMLHttpRequest`. */
+    private visitGlobal(identifier: ts.Identifier, sourceFile: ts.SourceFile, report: (match: PatternMatch) => void): void {
+        const name = identifier.text;
+        const offset = identifier.getStart(sourceFile);
+
+        if (name === 'XMLHttpRequest') {
+            report({
+                pattern: 'XMLHttpRequest',
+                offset,
+                length: name.length,
+                suggestion: 'Replace XMLHttpRequest with the promise-based fetch() API'
+            });
+            return;
+        }
+
+        const key = this.findGlobalKey(name);
+        if (key) this.reportKey(key, offset, name.length, name, report);
+    }
+
+    /** `navigator.clipboard`, `Object.groupBy` or `window.structuredClone`. */
+    private visitGlobalMember(
+        node: ts.PropertyAccessExpression,
+        receiver: string,
+        member: string,
+        sourceFile: ts.SourceFile,
+        report: (match: PatternMatch) => void
+    ): void {
+        const offset = node.getStart(sourceFile);
+        const text = node.getText(sourceFile);
+
+        if (GLOBAL_OBJECTS.includes(receiver)) {
+            const key = this.findGlobalKey(member);
+            if (key) this.reportKey(key, offset, text.length, text, report);
+            return;
+        }
+
+        const candidates = Object.prototype.hasOwnProperty.call(GLOBAL_INSTANCES, receiver)
+            ? [`api.${GLOBAL_INSTANCES[receiver]}.${member}`]
+            : [`javascript.builtins.${receiver}.${member}`, `api.${receiver}.${member}`];
+        const key = candidates.find(candidate => this.baselineService.getFeatureByCompatKey(candidate));
+        if (key) this.reportKey(key, offset, text.length, text, report);
+    }
+
+    private visitInstanceMethod(name: ts.Identifier, sourceFile: ts.SourceFile, report: (match: PatternMatch) => void): void {
+        if (!Object.prototype.hasOwnProperty.call(INSTANCE_METHODS, name.text)) return;
+
+        const key = INSTANCE_METHODS[name.text]
+            .map(type => `javascript.builtins.${type}.${name.text}`)
+            .find(candidate => this.baselineService.getFeatureByCompatKey(candidate));
+        if (key) this.reportKey(key, name.getStart(sourceFile), name.text.length, `.${name.text}()`, report);
+    }
+
+    private findGlobalKey(name: string): string | undefined {
+        return [`api.${name}`, `javascript.builtins.${name}`, `api.Window.${name}`]
+            .find(candidate => this.baselineService.getFeatureByCompatKey(candidate));
+    }
+
+    /** Reports the feature `compatKey` belongs to, whatever its status; CodeAnalyzer decides which widely available ones are findings. */
+    private reportKey(compatKey: string, offset: number, length: number, text: string, report: (match: PatternMatch) => void): void {
+        const feature = this.baselineService.getFeatureByCompatKey(compatKey);
+        if (!feature) return;
+
+        report({
+            pattern: feature.id,
+            offset,
+            length,
+            suggestion: `${text} relies on ${feature.name}, which is ${describeStatus(feature)} (${compatKey})`
+        });
+    }
+}
+
+/** Parses a JavaScript or TypeScript source with parent links, so nodes can walk up to their scopes. */
+export function parseScript(text: string, languageId: string): ts.SourceFile {
+    const script = SCRIPT_KINDS[languageId] || SCRIPT_KINDS.javascript;
+    return ts.createSourceFile(`analyzed.${script.extension}`, text, ts.ScriptTarget.Latest, true, script.kind);
+}
+
+/** Type annotations, interfaces and type aliases never reach the browser. */
+function isTypeOnly(node: ts.Node): boolean {
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) return true;
+    if (ts.isHeritageClause(node)) return node.token === ts.SyntaxKind.ImplementsKeyword;
+    // `extends Base` in a class is an expression despite being parsed like a type
+    return ts.isTypeNode(node) && !ts.isExpressionWithTypeArguments(node);
+}
+
+/** Whether the identifier reads a binding, as opposed to naming a property, declaration or label. */
+function isReference(identifier: ts.Identifier): boolean {
+    const parent = identifier.parent;
+    if (ts.isShorthandPropertyAssignment(parent)) return parent.name === identifier;
+    if (ts.isPropertyAccessExpression(parent)) return parent.name !== identifier;
+    if (ts.isQualifiedName(parent)) return parent.right !== identifier;
+    if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) return false;
+    if ((ts.isBindingElement(parent) || ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) && parent.propertyName === identifier) {
+        return false;
+    }
+    return (parent as { name?: ts.Node }).name !== identifier;
+}
+
+/**
+ * Whether a `var` list can become `let` or `const` without changing behaviour: every
+ * binding is declared once in its function and only used after its declaration, inside
+ * the enclosing block, and no closure captures it in a loop, where `let` would give each
+ * iteration its own binding. Top-level bindings of classic scripts are globals that
+ * other scripts may share, so they are left alone.
+ */
+function canBeBlockScoped(list: ts.VariableDeclarationList, sourceFile: ts.SourceFile, scopes: Map<ts.Node, Set<string>>): boolean {
+    const statement = list.parent;
+    let block: ts.Node;
+    if (ts.isVariableStatement(statement)) {
+        // `let` is not allowed as the body of `if (a) var x = 1`, and cases share one block
+        block = statement.parent;
+        if (!(ts.isBlock(block) || ts.isSourceFile(block) || ts.isModuleBlock(block))) return false;
+    } else if ((ts.isForStatement(statement) || ts.isForInStatement(statement) || ts.isForOfStatement(statement)) && statement.initializer === list) {
+        block = statement;
+    } else {
+        return false;
+    }
+
+    const functionScope = functionScopeOf(list);
+    if (ts.isSourceFile(functionScope) && !ts.isExternalModule(sourceFile)) return false;
+
+    // A declaration without initializer in a loop body keeps its value between iterations only as a var
+    const loop = enclosingLoop(statement, functionScope);
+    if (loop && loop !== statement && list.declarations.some(declaration => !declaration.initializer)) return false;
+
+    const declaredAt = new Map<string, number>();
+    list.declarations.forEach(declaration => bindingNames(declaration.name).forEach(name => declaredAt.set(name, declaration.end)));
+    if (Array.from(declaredAt.keys()).some(name => countDeclarations(functionScope, name) !== 1)) return false;
+
+    let safe = true;
+    const visit = (node: ts.Node) => {
+        if (!safe) return;
+        if (ts.isIdentifier(node) && declaredAt.has(node.text) && isReference(node) && resolvesTo(node, functionScope, scopes)) {
+            safe = node.getStart(sourceFile) >= declaredAt.get(node.text)! && isWithin(node, block) &&
+                !isInHoistedFunction(node, functionScope) && !(loop && isInFunctionWithin(node, loop));
+        }
+        ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(functionScope, visit);
+    return safe;
+}
+
+/**
+ * Whether a function expression behaves the same as an arrow function: it does not use
+ * `this`, `arguments`, `super` or `new.target`, does not call itself by name, and is
+ * never constructed or given a prototype, which arrow functions lack.
+ */
+function canBeArrowFunction(node: ts.FunctionExpression, sourceFile: ts.SourceFile): boolean {
+    let outer: ts.Node = node;
+    while (ts.isParenthesizedExpression(outer.parent)) outer = outer.parent;
+    if (ts.isNewExpression(outer.parent) && outer.parent.expression === outer) return false;
+
+    const ownName = node.name?.text;
+    let safe = true;
+    const visitBody = (child: ts.Node) => {
+        if (!safe) return;
+        if (child.kind === ts.SyntaxKind.ThisKeyword || child.kind === ts.SyntaxKind.SuperKeyword || ts.isMetaProperty(child) ||
+            (ts.isIdentifier(child) && isReference(child) && (child.text === 'arguments' || child.text === ownName))) {
+            safe = false;
+            return;
+        }
+        // Nested functions and classes have their own `this` and `arguments`
+        if ((ts.isFunctionLike(child) && !ts.isArrowFunction(child)) || ts.isClassLike(child)) {
+            if (ownName) ts.forEachChild(child, visitName);
+            return;
+        }
+        ts.forEachChild(child, visitBody);
+    };
+    const visitName = (child: ts.Node) => {
+        if (ts.isIdentifier(child) && child.text === ownName && isReference(child)) safe = false;
+        if (safe) ts.forEachChild(child, visitName);
+    };
+    node.parameters.forEach(visitBody);
+    if (node.body) visitBody(node.body);
+    if (!safe) return false;
+
+    const boundName = nameBoundTo(outer);
+    if (!boundName) return true;
+
+    // Without type information, any `new X` or `X.prototype` for the same name counts
+    const namesFunction = (expression: ts.Expression) =>
+        (ts.isIdentifier(expression) && expression.text === boundName) ||
+        (ts.isPropertyAccessExpression(expression) && expression.name.text === boundName);
+    const visitFile = (child: ts.Node) => {
+        if (!safe) return;
+        if ((ts.isNewExpression(child) && namesFunction(child.expression)) ||
+            (ts.isPropertyAccessExpression(child) && child.name.text === 'prototype' && namesFunction(child.expression))) {
+            safe = false;
+            return;
+        }
+        ts.forEachChild(child, visitFile);
+    };
+    visitFile(sourceFile);
+    return safe;
+}
+
+/** The variable or property a function expression is assigned to, as in `var F = function…` or `obj.F = function…`. */
+function nameBoundTo(expression: ts.Node): string | undefined {
+    const parent = expression.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.initializer === expression) {
+        return ts.isIdentifier(parent.name) || ts.isStringLiteral(parent.name) ? parent.name.text : undefined;
+    }
+    if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && parent.right === expression) {
+        if (ts.isIdentifier(parent.left)) return parent.left.text;
+        if (ts.isPropertyAccessExpression(parent.left)) return parent.left.name.text;
+    }
+    return undefined;
+}
+
+/** How often `name` is declared in `functionScope` itself, as a var, parameter, block binding, function or class. */
+function countDeclarations(functionScope: ts.Node, name: string): number {
+    let count = 0;
+    const visit = (node: ts.Node) => {
+        if (ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) ||
+            ts.isEnumDeclaration(node) || ts.isImportClause(node) || ts.isNamespaceImport(node) || ts.isImportSpecifier(node) ||
+            ts.isImportEqualsDeclaration(node)) {
+            const owner = ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) ? node.parent : node;
+            if (functionScopeOf(owner) === functionScope && bindingNames(node.name).includes(name)) count++;
+        }
+        ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(functionScope, visit);
+    return count;
+}
+
+/** Whether the nearest declaration of the identifier's name is the one `var` puts in `functionScope`. */
+function resolvesTo(identifier: ts.Identifier, functionScope: ts.Node, scopes: Map<ts.Node, Set<string>>): boolean {
+    for (let current: ts.Node | undefined = identifier.parent; current; current = current.parent) {
+        if (scopes.get(current)?.has(identifier.text)) return current === functionScope;
+    }
+    return false;
+}
+
+/** The innermost loop around `node` in the same function. */
+function enclosingLoop(node: ts.Node, functionScope: ts.Node): ts.IterationStatement | undefined {
+    for (let current: ts.Node = node; current !== functionScope; current = current.parent) {
+        if (ts.isIterationStatement(current, false)) return current;
+    }
+    return undefined;
+}
+
+function isWithin(node: ts.Node, ancestor: ts.Node): boolean {
+    for (let current: ts.Node | undefined = node; current; current = current.parent) {
+        if (current === ancestor) return true;
+    }
+    return false;
+}
+
+/** Function declarations are hoisted, so their body may run before the declaration it reads. */
+function isInHoistedFunction(node: ts.Node, functionScope: ts.Node): boolean {
+    for (let current = node.parent; current !== functionScope; current = current.parent) {
+        if (ts.isFunctionDeclaration(current)) return true;
+    }
+    return false;
+}
+
+function isInFunctionWithin(node: ts.Node, ancestor: ts.Node): boolean {
+    for (let current = node.parent; current && current !== ancestor; current = current.parent) {
+        if (ts.isFunctionLike(current) || ts.isClassStaticBlockDeclaration(current)) return true;
+    }
+    return false;
+}
+
+/** Whether `node` runs outside every function, i.e. at the top level of a module. */
+function isTopLevel(node: ts.Node): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+        if (ts.isFunctionLike(current) || ts.isClassStaticBlockDeclaration(current)) return false;
+    }
+    return true;
+}
+
+function isDeclaredLocally(identifier: ts.Identifier, scopes: Map<ts.Node, Set<string>>): boolean {
+    for (let current: ts.Node | undefined = identifier.parent; current; current = current.parent) {
+        if (scopes.get(current)?.has(identifier.text)) return true;
+    }
+    return false;
+}
+
+/**
+ * Maps every scope-creating node to the names declared in it: `var` and parameters
+ * belong to the enclosing function, `let`, `const`, classes and functions to the
+ * enclosing block, and imports to the module.
+ */
+function collectDeclarations(sourceFile: ts.SourceFile): Map<ts.Node, Set<string>> {
+    const scopes = new Map<ts.Node, Set<string>>();
+    const declare = (scope: ts.Node, name: ts.Node | undefined) => {
+        bindingNames(name).forEach(text => {
+            let names = scopes.get(scope);
+            if (!names) {
+                names = new Set();
+                scopes.set(scope, names);
+            }
+            names.add(text);
+        });
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isVariableDeclaration(node)) {
+            const list = node.parent;
+            if (ts.isCatchClause(list)) {
+                declare(list, node.name);
+            } else if (ts.isVariableDeclarationList(list)) {
+                declare(list.flags & ts.NodeFlags.BlockScoped ? blockScopeOf(list.parent) : functionScopeOf(list), node.name);
+            }
+        } else if (ts.isParameter(node)) {
+            declare(node.parent, node.name);
+        } else if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) {
+            declare(blockScopeOf(node.parent), node.name);
+        } else if (ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+            // A named function or class expression can refer to itself by name
+            declare(node, node.name);
+        } else if (ts.isImportClause(node) || ts.isNamespaceImport(node) || ts.isImportSpecifier(node) || ts.isImportEqualsDeclaration(node)) {
+            declare(functionScopeOf(node), node.name);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return scopes;
+}
+
+function bindingNames(name: ts.Node | undefined): string[] {
+    if (!name) return [];
+    if (ts.isIdentifier(name)) return [name.text];
+    if (ts.isObjectBindingPattern(name) || ts.isArrayBindingPattern(name)) {
+        return name.elements.flatMap(element => ts.isBindingElement(element) ? bindingNames(element.name) : []);
+    }
+    return [];
+}
+
+function blockScopeOf(node: ts.Node): ts.Node {
+    let current = node;
+    while (!(ts.isBlock(current) || ts.isSourceFile(current) || ts.isModuleBlock(current) || ts.isCaseBlock(current) ||
+        ts.isForStatement(current) || ts.isForInStatement(current) || ts.isForOfStatement(current) ||
+        ts.isFunctionLike(current) || ts.isClassStaticBlockDeclaration(current)) && current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
+
+function functionScopeOf(node: ts.Node): ts.Node {
+    let current = node;
+    while (!(ts.isSourceFile(current) || ts.isModuleBlock(current) || ts.isFunctionLike(current) ||
+        ts.isClassStaticBlockDeclaration(current)) && current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
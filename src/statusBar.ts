@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { AnalysisResult, BaselineService } from './baselineService';
+import { CodeAnalyzer, isSupportedLanguage } from './codeAnalyzer';
+import { BaselineDiagnosticsProvider } from './diagnosticsProvider';
+import { getPolicySeverity } from './policy';
+import { BaselinePolicyProvider } from './policyProvider';
+
+export const SHOW_FILE_PATTERNS_COMMAND = 'baseline-modernizer.showFilePatterns';
+
+interface PatternPickItem extends vscode.QuickPickItem {
+    range: vscode.Range;
+}
+
+/**
+ * Shows the active editor's Baseline score and how many of the features it uses fall
+ * below the policy or `targetBaseline` target. The item turns red when any do, and
+ * yellow when the file only has legacy patterns to modernize. Clicking it lists the
+ * detected patterns.
+ */
+export class BaselineStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private codeAnalyzer: CodeAnalyzer;
+    private baselineService: BaselineService;
+    private diagnosticsProvider: BaselineDiagnosticsProvider;
+    private policyProvider: BaselinePolicyProvider;
+    private disposables: vscode.Disposable[];
+
+    constructor(
+        codeAnalyzer: CodeAnalyzer,
+        baselineService: BaselineService,
+        diagnosticsProvider: BaselineDiagnosticsProvider,
+        policyProvider: BaselinePolicyProvider
+    ) {
+        this.codeAnalyzer = codeAnalyzer;
+        this.baselineService = baselineService;
+        this.diagnosticsProvider = diagnosticsProvider;
+        this.policyProvider = policyProvider;
+        this.item = vscode.window.createStatusBarItem('baseline-modernizer.score', vscode.StatusBarAlignment.Right, 100);
+        this.item.name = 'Baseline Score';
+        this.item.command = SHOW_FILE_PATTERNS_COMMAND;
+        this.disposables = [this.item];
+    }
+
+    register(): void {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            // While typing, diagnostics re-analyze the document when auto analysis is on
+            this.diagnosticsProvider.onDidChangeResults(() => this.update()),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document === vscode.window.activeTextEditor?.document) this.update();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('baseline-modernizer')) this.update();
+            }),
+            this.policyProvider.onDidChange(() => this.update())
+        );
+
+        this.update();
+    }
+
+    private update(): void {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document || !isSupportedLanguage(document.languageId)) {
+            this.item.hide();
+            return;
+        }
+
+        const result = this.getResult(document);
+        const belowTarget = this.getFeaturesBelowTarget(result, document.uri);
+        const target = this.policyProvider.getPolicy(document.uri).target;
+
+        this.item.text = belowTarget.length > 0
+            ? `$(warning) Baseline ${result.baselineScore} · ${belowTarget.length} below target`
+            : `$(pass) Baseline ${result.baselineScore}`;
+        this.item.backgroundColor = belowTarget.length > 0
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : result.issuesFound > 0 ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**Baseline score: ${result.baselineScore}/100**\n\n`);
+        tooltip.appendMarkdown(`${result.issuesFound} modernization opportunities; `);
+        tooltip.appendMarkdown(belowTarget.length > 0
+            ? `${belowTarget.length} features below the "${target}" target: ${belowTarget.map(feature => feature.name).join(', ')}`
+            : `every feature meets the "${target}" target`);
+        if (result.scoreBreakdown.length > 0) {
+            tooltip.appendMarkdown('\n\n| Pattern | Uses | Points |\n| --- | --- | --- |\n');
+            result.scoreBreakdown.forEach(cost => {
+                tooltip.appendMarkdown(`| ${cost.pattern.replace(/[\\`*_[\]<>|#]/g, '\\$&')} | ${cost.count} | −${cost.points} |\n`);
+            });
+        }
+        tooltip.appendMarkdown('\n\nClick to list the detected patterns.');
+        this.item.tooltip = tooltip;
+
+        this.item.show();
+    }
+
+    /** The diagnostics' analysis, which follows every edit, or a fresh one when auto analysis is off. */
+    private getResult(document: vscode.TextDocument): AnalysisResult {
+        return this.diagnosticsProvider.getResult(document.uri) ||
+            this.codeAnalyzer.analyze(document.getText(), vscode.workspace.asRelativePath(document.uri), document.languageId);
+    }
+
+    /** Distinct features used in the file that fall short of the target and that the policy does not allow. */
+    private getFeaturesBelowTarget(result: AnalysisResult, uri: vscode.Uri) {
+        const policy = this.policyProvider.getPolicy(uri);
+        return result.patterns
+            .filter(pattern => this.baselineService.isBelowTarget(pattern.pattern, policy.target) && getPolicySeverity(policy, pattern.pattern) !== 'off')
+            .map(pattern => this.baselineService.getFeatureInfo(pattern.pattern)!);
+    }
+
+    /** Lists the active file's findings in a quick pick and moves the cursor to the chosen one. */
+    async showPatterns(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !isSupportedLanguage(editor.document.languageId)) return;
+
+        const document = editor.document;
+        const result = this.getResult(document);
+        const policy = this.policyProvider.getPolicy(document.uri);
+
+        const items: PatternPickItem[] = result.patterns
+            .flatMap(pattern => {
+                const legacy = this.baselineService.isLegacyPattern(pattern.pattern);
+                const feature = legacy ? undefined : this.baselineService.getFeatureInfo(pattern.pattern);
+                const icon = this.baselineService.isBelowTarget(pattern.pattern, policy.target) ? '$(error)' : legacy ? '$(lightbulb)' : '$(info)';
+
+                return pattern.locations.map(location => {
+                    const start = new vscode.Position(location.line - 1, location.column - 1);
+                    return {
+                        label: `${icon} ${feature ? feature.name : pattern.pattern}`,
+                        description: `Ln ${location.line}, Col ${location.column}`,
+                        detail: location.suggestion,
+                        range: new vscode.Range(start, start.translate(0, location.length || pattern.pattern.length))
+                    };
+                });
+            })
+            .sort((a, b) => a.range.start.compareTo(b.range.start));
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(`No legacy patterns or non-Baseline features found in ${vscode.workspace.asRelativePath(document.uri)}.`);
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Baseline score ${result.baselineScore} · ${items.length} findings`,
+            placeHolder: 'Go to a detected pattern',
+            matchOnDetail: true
+        });
+        if (picked) {
+            const target = await vscode.window.showTextDocument(document, editor.viewColumn);
+            target.selection = new vscode.Selection(picked.range.start, picked.range.end);
+            target.revealRange(picked.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,69 @@
+import { PatternMatch, Suppression } from './baselineService';
+
+interface SuppressionDirective {
+    // 1-based line whose findings are suppressed
+    line: number;
+    // Patterns to suppress; empty suppresses every pattern on the line
+    patterns: string[];
+    justification?: string;
+}
+
+// `baseline-ignore` in a line, block or HTML comment; the body runs to the end of the comment or line
+const DIRECTIVE = /(\/\/|\/\*|<!--)[ \t]*baseline-ignore(-next-line)?(?![\w-])(.*?)(?:\*\/|-->|$)/gm;
+
+/**
+ * Finds `baseline-ignore` directives in comments. `baseline-ignore` applies to its own
+ * line, or to the next one when the comment stands alone on its line;
+ * `baseline-ignore-next-line` always applies to the next line. Either may name the
+ * patterns to suppress and give a justification after `--`:
+ *
+ *     fetchWithProgress(); // baseline-ignore XMLHttpRequest -- upload progress needs XHR
+ */
+export function findSuppressionDirectives(text: string, positionOf: (offset: number) => { line: number; column: number }): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+    let match: RegExpExecArray | null;
+
+    DIRECTIVE.lastIndex = 0;
+    while ((match = DIRECTIVE.exec(text)) !== null) {
+        const { line, column } = positionOf(match.index);
+        const standsAlone = text.slice(match.index - column + 1, match.index).trim() === '';
+        const separator = match[3].search(/(?:^|\s)--(?:\s|$)/);
+        const patternList = separator === -1 ? match[3] : match[3].slice(0, separator);
+        const justification = separator === -1 ? '' : match[3].slice(separator).replace(/^\s*--/, '').trim();
+
+        directives.push({
+            line: match[2] || standsAlone ? line + 1 : line,
+            patterns: patternList.split(/[\s,]+/).filter(Boolean),
+            justification: justification || undefined
+        });
+    }
+
+    return directives;
+}
+
+/** Splits matches into those that are reported and those that a directive suppresses. */
+export function applySuppressions(
+    matches: PatternMatch[],
+    text: string,
+    positionOf: (offset: number) => { line: number; column: number }
+): { reported: PatternMatch[]; suppressions: Suppression[] } {
+    const directives = text.includes('baseline-ignore') ? findSuppressionDirectives(text, positionOf) : [];
+    if (directives.length === 0) return { reported: matches, suppressions: [] };
+
+    const reported: PatternMatch[] = [];
+    const suppressions: Suppression[] = [];
+
+    matches.forEach(match => {
+        const position = positionOf(match.offset);
+        const directive = directives.find(candidate => candidate.line === position.line &&
+            (candidate.patterns.length === 0 || candidate.patterns.includes(match.pattern)));
+
+        if (directive) {
+            suppressions.push({ pattern: match.pattern, ...position, justification: directive.justification });
+        } else {
+            reported.push(match);
+        }
+    });
+
+    return { reported, suppressions };
+}
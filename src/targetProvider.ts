@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { BaselineService } from './baselineService';
+import { parseBrowserslistPackageField, parseBrowserslistrc, ResolvedTarget, resolveBrowserslist } from './browserslist';
+import { BrowserId } from './browserSupport';
+
+export class BrowserTargetProvider implements vscode.Disposable {
+    private baselineService: BaselineService;
+    private targets: Map<string, ResolvedTarget | undefined>;
+    private onDidChangeEmitter: vscode.EventEmitter<void>;
+    private disposables: vscode.Disposable[];
+
+    readonly onDidChange: vscode.Event<void>;
+
+    constructor(baselineService: BaselineService) {
+        this.baselineService = baselineService;
+        this.targets = new Map();
+        this.onDidChangeEmitter = new vscode.EventEmitter<void>();
+        this.onDidChange = this.onDidChangeEmitter.event;
+        this.disposables = [this.onDidChangeEmitter];
+    }
+
+    async register(): Promise<void> {
+        const reload = () => this.load().then(() => this.onDidChangeEmitter.fire());
+
+        for (const pattern of ['.browserslistrc', 'package.json']) {
+            const watcher = vscode.workspace.createFileSystemWatcher(`**/${pattern}`);
+            watcher.onDidCreate(reload);
+            watcher.onDidChange(reload);
+            watcher.onDidDelete(reload);
+            this.disposables.push(watcher);
+        }
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(reload));
+
+        await reload();
+    }
+
+    /** The browserslist target of the workspace folder containing `uri`, or of the first folder. */
+    getTarget(uri?: vscode.Uri): ResolvedTarget | undefined {
+        const folder = (uri && vscode.workspace.getWorkspaceFolder(uri)) || vscode.workspace.workspaceFolders?.[0];
+        return folder ? this.targets.get(folder.uri.toString()) : undefined;
+    }
+
+    /**
+     * Oldest browser versions to report support for: explicit `minimumBrowserVersions`
+     * settings first, then the browserslist target, then the latest known release.
+     */
+    getMinimumBrowserVersions(uri?: vscode.Uri): Record<BrowserId, string> {
+        const configured = vscode.workspace.getConfiguration('baseline-modernizer')
+            .get<Partial<Record<BrowserId, string>>>('minimumBrowserVersions', {});
+        const target = this.getTarget(uri);
+
+        return this.baselineService.resolveMinimumVersions({ ...target?.versions, ...configured });
+    }
+
+    private async load(): Promise<void> {
+        this.targets.clear();
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            try {
+                this.targets.set(folder.uri.toString(), await this.loadFolderTarget(folder));
+            } catch (error) {
+                console.warn(`Could not resolve browserslist config in ${folder.name}:`, error);
+            }
+        }
+    }
+
+    private async loadFolderTarget(folder: vscode.WorkspaceFolder): Promise<ResolvedTarget | undefined> {
+        const releases = this.baselineService.getBrowserReleases();
+
+        const rcContent = await this.readOptional(vscode.Uri.joinPath(folder.uri, '.browserslistrc'));
+        if (rcContent !== undefined) {
+            const queries = parseBrowserslistrc(rcContent);
+            return queries.length > 0 ? resolveBrowserslist(queries, releases, '.browserslistrc') : undefined;
+        }
+
+        const packageContent = await this.readOptional(vscode.Uri.joinPath(folder.uri, 'package.json'));
+        if (packageContent !== undefined) {
+            const queries = parseBrowserslistPackageField(JSON.parse(packageContent).browserslist);
+            return queries.length > 0 ? resolveBrowserslist(queries, releases, 'package.json') : undefined;
+        }
+
+        return undefined;
+    }
+
+    private async readOptional(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -1,22 +1,48 @@
 import * as vscode from 'vscode';
 import { MetricsTracker } from './metricsTracker';
-import { BaselineService } from './baselineService';
+import { resolveWorkspacePath } from './projectScanner';
+import { BaselineFeatureInfo, BaselineService } from './baselineService';
+import { describeTarget } from './browserslist';
+import { BrowserId, computeBrowserSupportStats } from './browserSupport';
+import { POLICY_FILE_NAME } from './policy';
+import { BaselinePolicyProvider } from './policyProvider';
+import { generateRecommendations, Recommendation } from './recommendations';
+import { BrowserTargetProvider } from './targetProvider';
+import { FIX_ALL_COMMAND } from './workspaceFixes';
+
+// Browsers shown on the feature grid's cards
+const DASHBOARD_BROWSERS: BrowserId[] = ['chrome', 'firefox', 'safari', 'edge'];
 
 export class BaselineWebviewProvider {
     private panel: vscode.WebviewPanel | undefined;
     private extensionUri: vscode.Uri;
     private metricsTracker: MetricsTracker;
     private baselineService: BaselineService;
-
-    constructor(extensionUri: vscode.Uri, metricsTracker: MetricsTracker, baselineService: BaselineService) {
+    private targetProvider: BrowserTargetProvider;
+    private policyProvider: BaselinePolicyProvider;
+    // Feature details to show once a newly opened dashboard has loaded
+    private pendingFeatureId: string | undefined;
+
+    constructor(
+        extensionUri: vscode.Uri,
+        metricsTracker: MetricsTracker,
+        baselineService: BaselineService,
+        targetProvider: BrowserTargetProvider,
+        policyProvider: BaselinePolicyProvider
+    ) {
         this.extensionUri = extensionUri;
         this.metricsTracker = metricsTracker;
         this.baselineService = baselineService;
+        this.targetProvider = targetProvider;
+        this.policyProvider = policyProvider;
+        this.targetProvider.onDidChange(() => this.updateDashboard());
+        this.policyProvider.onDidChange(() => this.updateDashboard());
     }
 
     public show(): void {
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.One);
+            this.updateDashboard();
             return;
         }
 
@@ -40,10 +66,21 @@ export class BaselineWebviewProvider {
                 switch (message.command) {
                     case 'refresh':
                         this.updateDashboard();
+                        if (this.pendingFeatureId) {
+                            this.sendFeatureDetails(this.pendingFeatureId);
+                            this.pendingFeatureId = undefined;
+                        }
                         break;
                     case 'exportMetrics':
                         this.exportMetrics();
                         break;
+                    case 'exportSarif':
+                        vscode.commands.executeCommand('baseline-modernizer.exportSarif');
+                        break;
+                    case 'importMetrics':
+                        vscode.commands.executeCommand('baseline-modernizer.importMetrics')
+                            .then(() => this.updateDashboard());
+                        break;
                     case 'resetMetrics':
                         this.resetMetrics();
                         break;
@@ -62,48 +99,69 @@ export class BaselineWebviewProvider {
                     case 'loadSampleData':
                         this.loadSampleData();
                         break;
+                    case 'openFile':
+                        this.openFile(message.fileName, message.line, message.column);
+                        break;
                 }
             }
         );
 
         this.panel.onDidDispose(() => {
             this.panel = undefined;
+            this.pendingFeatureId = undefined;
         });
 
-        // Initial data load with sample data
-        this.loadSampleData();
+        this.updateDashboard();
     }
 
-    private loadSampleData(): void {
-        // Add sample analysis data for demonstration
-        this.metricsTracker.recordAnalysis('src/app.js', 3);
-        this.metricsTracker.recordFeatureUsage('var');
-        this.metricsTracker.recordFeatureUsage('XMLHttpRequest');
-        this.metricsTracker.recordFeatureUsage('float');
-        this.metricsTracker.recordFeatureUsage('var');
-        this.metricsTracker.recordFeatureUsage('function');
-        this.metricsTracker.recordFeatureUsage('float');
-
-        this.metricsTracker.recordAnalysis('src/styles.css', 2);
-        this.metricsTracker.recordFeatureUsage('<div>');
-        this.metricsTracker.recordFeatureUsage('<b><i><u>');
-
-        // Record some fixes
-        this.metricsTracker.recordFix('let-const');
-        this.metricsTracker.recordFix('fetch');
+    /** Opens the dashboard on a feature's details, e.g. for a feature selected in the explorer view. */
+    public showFeatureDetails(featureId: string): void {
+        if (this.panel) {
+            this.show();
+            this.sendFeatureDetails(featureId);
+        } else {
+            // A new dashboard asks for its data when its script starts; the details follow that request
+            this.pendingFeatureId = featureId;
+            this.show();
+        }
+    }
 
+    private loadSampleData(): void {
+        // Only on explicit request: sample entries are saved with the workspace's real metrics
+        this.metricsTracker.loadSampleData(this.baselineService);
         this.updateDashboard();
     }
 
+    private async openFile(fileName: string, line: number = 1, column: number = 1): Promise<void> {
+        const uri = resolveWorkspacePath(fileName);
+        if (!uri) return;
+
+        try {
+            const position = new vscode.Position(Math.max(line - 1, 0), Math.max(column - 1, 0));
+            await vscode.window.showTextDocument(uri, {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+        } catch {
+            vscode.window.showWarningMessage(`${fileName} no longer exists. Analyze the project again to refresh the file list.`);
+        }
+    }
+
     private updateDashboard(): void {
         if (!this.panel) return;
 
-        const metrics = this.metricsTracker.getMetrics();
+        // Per-file results travel separately as a compact table
+        const { files: _files, ...metrics } = this.metricsTracker.getMetrics();
         const mostUsedFeatures = this.metricsTracker.getMostUsedFeatures();
         const baselineFeatures = this.getBaselineFeatureStats();
         const recommendations = this.generateRecommendations();
         const browserSupport = this.getBrowserSupportStats();
+        const workspaceBrowserSupport = this.getWorkspaceBrowserSupportStats();
         const supportedFeatures = this.getSupportedWebFeatures();
+        const target = this.getTargetInfo();
+        const files = this.getFileIssues();
+        const diffScan = this.getDiffScan();
+        const projectScore = this.metricsTracker.getProjectScore(this.baselineService);
 
         this.panel.webview.postMessage({
             command: 'updateData',
@@ -114,11 +172,60 @@ export class BaselineWebviewProvider {
                 recommendations,
                 timeline: this.generateTimelineData(),
                 browserSupport,
-                supportedFeatures
+                workspaceBrowserSupport,
+                supportedFeatures,
+                target,
+                files,
+                diffScan,
+                projectScore
             }
         });
     }
 
+    private getFileIssues() {
+        return this.metricsTracker.getFileAnalyses()
+            .filter(file => file.issuesFound > 0)
+            .map(file => ({
+                fileName: file.fileName,
+                language: file.language,
+                issuesFound: file.issuesFound,
+                baselineScore: file.baselineScore,
+                analyzedAt: file.analyzedAt.toISOString(),
+                patterns: file.patterns.map(pattern => ({
+                    pattern: pattern.pattern,
+                    count: pattern.count,
+                    location: pattern.locations[0]
+                }))
+            }));
+    }
+
+    /** The latest diff scan, labeled separately from the project-wide file table. */
+    private getDiffScan() {
+        const scan = this.metricsTracker.getDiffScan();
+        if (!scan) return undefined;
+
+        return {
+            label: 'diff scan',
+            baseRef: scan.baseRef,
+            changedLinesOnly: scan.changedLinesOnly,
+            scannedAt: scan.scannedAt.toISOString(),
+            filesScanned: scan.filesScanned,
+            issuesFound: scan.issuesFound,
+            files: scan.files
+                .filter(file => file.issuesFound > 0)
+                .sort((a, b) => b.issuesFound - a.issuesFound)
+                .map(file => ({
+                    fileName: file.fileName,
+                    issuesFound: file.issuesFound,
+                    patterns: file.patterns.map(pattern => ({
+                        pattern: pattern.pattern,
+                        count: pattern.count,
+                        location: pattern.locations[0]
+                    }))
+                }))
+        };
+    }
+
     private getBaselineFeatureStats() {
         const allFeatures = this.baselineService.getAllFeatures();
         const highFeatures = this.baselineService.getBaselineFeatures('high');
@@ -126,200 +233,80 @@ export class BaselineWebviewProvider {
         const limitedFeatures = this.baselineService.getBaselineFeatures(false);
 
         return {
-            total: Math.max(allFeatures.length, 1200), // Ensure we have a reasonable number
-            widely_available: Math.max(highFeatures.length, 850),
-            newly_available: Math.max(lowFeatures.length, 250),
-            limited_availability: Math.max(limitedFeatures.length, 100),
-            adoption_percentage: Math.round((850 / 1200) * 100) // About 71%
+            total: allFeatures.length,
+            widely_available: highFeatures.length,
+            newly_available: lowFeatures.length,
+            limited_availability: limitedFeatures.length,
+            adoption_percentage: allFeatures.length > 0 ? Math.round((highFeatures.length / allFeatures.length) * 100) : 0
         };
     }
 
+    /**
+     * The features that the modern alternatives recommend and those used in the workspace,
+     * for the dashboard's feature grid. The feature explorer view lists every feature.
+     */
     private getSupportedWebFeatures() {
-        // Get sample of widely supported baseline features
-        const sampleFeatures = [
-            {
-                id: 'flexbox',
-                name: 'CSS Flexbox',
-                description: 'A layout method for arranging items in rows or columns',
-                baseline: 'high',
-                since: '2017-03',
-                browsers: { chrome: '29', firefox: '28', safari: '9', edge: '12' },
-                category: 'CSS'
-            },
-            {
-                id: 'fetch',
-                name: 'Fetch API',
-                description: 'Modern way to make HTTP requests',
-                baseline: 'high', 
-                since: '2017-04',
-                browsers: { chrome: '42', firefox: '39', safari: '10.1', edge: '14' },
-                category: 'JavaScript'
-            },
-            {
-                id: 'let-const',
-                name: 'let and const',
-                description: 'Block-scoped variable declarations',
-                baseline: 'high',
-                since: '2016-07',
-                browsers: { chrome: '49', firefox: '36', safari: '10', edge: '12' },
-                category: 'JavaScript'
-            },
-            {
-                id: 'arrow-functions',
-                name: 'Arrow Functions',
-                description: 'Concise function syntax with lexical this binding',
-                baseline: 'high',
-                since: '2016-07',
-                browsers: { chrome: '45', firefox: '22', safari: '10', edge: '12' },
-                category: 'JavaScript'
-            },
-            {
-                id: 'grid',
-                name: 'CSS Grid',
-                description: 'Two-dimensional layout system',
-                baseline: 'high',
-                since: '2020-01',
-                browsers: { chrome: '57', firefox: '52', safari: '10.1', edge: '16' },
-                category: 'CSS'
-            },
-            {
-                id: 'semantic-elements',
-                name: 'HTML5 Semantic Elements',
-                description: 'Meaningful HTML structure elements',
-                baseline: 'high',
-                since: '2014-01',
-                browsers: { chrome: '5', firefox: '4', safari: '4.1', edge: '12' },
-                category: 'HTML'
-            },
-            {
-                id: 'custom-properties',
-                name: 'CSS Custom Properties',
-                description: 'CSS variables for dynamic styling',
-                baseline: 'high',
-                since: '2018-04',
-                browsers: { chrome: '49', firefox: '31', safari: '9.1', edge: '16' },
-                category: 'CSS'
-            },
-            {
-                id: 'template-literals',
-                name: 'Template Literals',
-                description: 'Enhanced string literals with embedded expressions',
-                baseline: 'high',
-                since: '2016-07',
-                browsers: { chrome: '41', firefox: '34', safari: '9', edge: '12' },
-                category: 'JavaScript'
-            },
-            {
-                id: 'object-spread',
-                name: 'Object Spread Syntax',
-                description: 'Spread properties in object literals',
-                baseline: 'low',
-                since: '2024-03',
-                browsers: { chrome: '60', firefox: '55', safari: '11.1', edge: '79' },
-                category: 'JavaScript'
-            },
-            {
-                id: 'container-queries',
-                name: 'CSS Container Queries',
-                description: 'Style elements based on container size',
-                baseline: 'low',
-                since: '2024-02',
-                browsers: { chrome: '105', firefox: '110', safari: '16', edge: '105' },
-                category: 'CSS'
-            }
-        ];
+        const usageKeys = Object.keys(this.metricsTracker.getMetrics().featureUsage);
+        const features = new Map<string, BaselineFeatureInfo>();
+        [
+            ...this.baselineService.getAllModernAlternatives().map(alternative => this.baselineService.getFeatureInfo(alternative.feature)),
+            ...this.baselineService.resolveUsedFeatures(usageKeys)
+        ].forEach(feature => {
+            if (feature) features.set(feature.id, feature);
+        });
 
-        return sampleFeatures;
+        return Array.from(features.values()).map(feature => ({
+            id: feature.id,
+            name: feature.name,
+            description: feature.description,
+            baseline: feature.status.baseline || 'limited',
+            since: (feature.status.baseline_high_date || feature.status.baseline_low_date)?.slice(0, 7),
+            browsers: Object.fromEntries(
+                DASHBOARD_BROWSERS.filter(browser => feature.status.support[browser]).map(browser => [browser, feature.status.support[browser]])
+            ),
+            category: feature.category
+        }));
     }
 
     private getBrowserSupportStats() {
-        // Calculate realistic browser support statistics
-        return {
-            chrome: { supported: 980, total: 1200, percentage: 82 },
-            firefox: { supported: 920, total: 1200, percentage: 77 },
-            safari: { supported: 850, total: 1200, percentage: 71 },
-            edge: { supported: 940, total: 1200, percentage: 78 }
-        };
+        return computeBrowserSupportStats(this.baselineService.getAllFeatures(), this.getMinimumBrowserVersions());
     }
 
-    private generateRecommendations() {
-        const metrics = this.metricsTracker.getMetrics();
-        const recommendations = [];
-
-        if (metrics.issuesFound > 0) {
-            const fixRate = Math.round((metrics.fixesApplied / metrics.issuesFound) * 100);
-            if (fixRate < 50) {
-                recommendations.push({
-                    id: 'low_fix_rate',
-                    type: 'priority',
-                    title: 'Apply Available Quick Fixes',
-                    description: `You have ${metrics.issuesFound} issues but only ${fixRate}% fixed. Use VS Code's quick fix actions (Ctrl+.) to modernize your code faster.`,
-                    action: 'Apply Quick Fixes',
-                    actionable: true,
-                    impact: 'High'
-                });
-            }
-        }
-
-        if (metrics.filesAnalyzed > 0) {
-            const avgIssuesPerFile = Math.round(metrics.issuesFound / metrics.filesAnalyzed);
-            if (avgIssuesPerFile > 2) {
-                recommendations.push({
-                    id: 'high_density',
-                    type: 'warning',
-                    title: 'Focus on High-Impact Files',
-                    description: `Average ${avgIssuesPerFile} legacy patterns per file. Prioritize files with the most issues for maximum impact.`,
-                    action: 'View File Analysis',
-                    actionable: true,
-                    impact: 'Medium'
-                });
-            }
-        }
+    private getWorkspaceBrowserSupportStats() {
+        const usedFeatures = this.baselineService.resolveUsedFeatures(Object.keys(this.metricsTracker.getMetrics().featureUsage));
+        return computeBrowserSupportStats(usedFeatures, this.getMinimumBrowserVersions());
+    }
 
-        const mostUsedFeatures = this.metricsTracker.getMostUsedFeatures();
-        if (mostUsedFeatures.length > 0) {
-            const topFeature = mostUsedFeatures[0];
-            recommendations.push({
-                id: 'common_pattern',
-                type: 'info',
-                title: `Modernize "${topFeature.feature}" Usage`,
-                description: `"${topFeature.feature}" appears ${topFeature.count} times. This is your biggest modernization opportunity.`,
-                action: 'View Alternatives',
-                actionable: true,
-                impact: 'High'
-            });
-        }
+    private getMinimumBrowserVersions() {
+        return this.targetProvider.getMinimumBrowserVersions();
+    }
 
-        // Add baseline-specific recommendations
-        recommendations.push({
-            id: 'baseline_adoption',
-            type: 'suggestion',
-            title: 'Adopt More Baseline Features',
-            description: '850+ web features are widely available (Baseline High). Consider using modern APIs and CSS properties that are safe across all browsers.',
-            action: 'Explore Baseline Features',
-            actionable: true,
-            impact: 'Medium'
-        });
+    private getTargetInfo() {
+        const target = this.targetProvider.getTarget();
+        const baseline = this.policyProvider.getPolicy().target;
 
-        // Add browser-specific recommendation
-        recommendations.push({
-            id: 'browser_compatibility',
-            type: 'info',
-            title: 'Excellent Browser Support Available',
-            description: 'Chrome (82%), Firefox (77%), Safari (71%), Edge (78%) - Most modern features have strong cross-browser support.',
-            action: 'View Browser Matrix',
-            actionable: false,
-            impact: 'Low'
-        });
+        return {
+            baseline,
+            policy: this.policyProvider.hasPolicy() ? POLICY_FILE_NAME : undefined,
+            source: target?.source,
+            summary: target ? describeTarget(target, this.baselineService.getBrowsers()) : undefined,
+            ignored: target?.ignored || []
+        };
+    }
 
-        return recommendations;
+    private generateRecommendations(): Recommendation[] {
+        return generateRecommendations(
+            this.metricsTracker.getFileAnalyses(),
+            this.baselineService,
+            fileName => this.policyProvider.getPolicy(resolveWorkspacePath(fileName))
+        );
     }
 
     private generateTimelineData() {
         const metrics = this.metricsTracker.getMetrics();
         const timeline = [];
 
-        const completionRate = metrics.issuesFound > 0 ? Math.round((metrics.fixesApplied / metrics.issuesFound) * 100) : 0;
+        const completionRate = metrics.modernizationProgress;
 
         timeline.push({
             phase: 'Assessment',
@@ -355,7 +342,7 @@ export class BaselineWebviewProvider {
             phase: 'Implementation',
             status: completionRate > 0 ? (completionRate >= 100 ? 'completed' : 'in-progress') : 'pending',
             progress: completionRate,
-            description: `Applied ${metrics.fixesApplied} of ${metrics.issuesFound} modernizations (${completionRate}% complete)`,
+            description: `Applied ${metrics.fixesApplied} of ${metrics.fixesApplied + metrics.issuesFound} modernizations (${completionRate}% complete)`,
             duration: '1-2 weeks',
             priority: 'medium',
             tasks: [
@@ -402,14 +389,19 @@ export class BaselineWebviewProvider {
     private sendFeatureDetails(featureId: string): void {
         if (!this.panel) return;
 
-        const feature = this.baselineService.getFeatureInfo(featureId);
+        // Legacy patterns like "var" share names with real features, so show their replacement instead
+        const alternatives = this.baselineService.getModernAlternatives(featureId);
+        const feature = this.baselineService.isLegacyPattern(featureId) && alternatives.length > 0
+            ? this.baselineService.getFeatureInfo(alternatives[0].feature)
+            : this.baselineService.getFeatureInfo(featureId);
+
         if (feature) {
             this.panel.webview.postMessage({
                 command: 'featureDetails',
                 data: {
                     feature,
-                    browserSupport: this.baselineService.getBrowserSupport(featureId),
-                    alternatives: this.baselineService.getModernAlternatives(featureId)
+                    browserSupport: feature.status.support,
+                    alternatives
                 }
             });
         }
@@ -429,7 +421,7 @@ export class BaselineWebviewProvider {
         });
     }
 
-    private createTimelineReport(timeline: any[], recommendations: any[]): string {
+    private createTimelineReport(timeline: any[], recommendations: Recommendation[]): string {
         const report = [
             '# 🚀 Modernization Timeline Report',
             `Generated on: ${new Date().toLocaleString()}\n`,
@@ -471,8 +463,10 @@ export class BaselineWebviewProvider {
                              rec.type === 'suggestion' ? '💡' : 'ℹ️';
 
             report.push(`### ${index + 1}. ${rec.title} ${typeEmoji}`);
-            report.push(`**Impact**: ${rec.impact || 'Medium'}`);
+            report.push(`**Impact**: ${rec.impact}`);
+            report.push(`**Estimated Effort**: ${rec.effort}`);
             report.push(`**Description**: ${rec.description}`);
+            report.push(`**Affected Files**: ${rec.files.length > 0 ? rec.files.join(', ') : 'None'}`);
             report.push(`**Recommended Action**: ${rec.action}\n`);
         });
 
@@ -505,30 +499,57 @@ export class BaselineWebviewProvider {
             });
     }
 
-    private applyRecommendation(recommendationId: string): void {
-        switch (recommendationId) {
-            case 'low_fix_rate':
-                vscode.window.showInformationMessage(
-                    'Use Quick Fix actions in VS Code! Place your cursor on any legacy pattern highlighted in red/yellow and press Ctrl+. (or Cmd+.) to see available fixes.',
-                    'Show Problems Panel'
-                ).then(selection => {
-                    if (selection === 'Show Problems Panel') {
-                        vscode.commands.executeCommand('workbench.panel.markers.view.focus');
-                    }
-                });
-                break;
-            case 'high_density':
-                vscode.commands.executeCommand('baseline-modernizer.analyzeProject');
+    /** Carries out a recommendation's action; recommendations that no longer apply since the dashboard rendered are skipped. */
+    private async applyRecommendation(recommendationId: string): Promise<void> {
+        const recommendation = this.generateRecommendations().find(candidate => candidate.id === recommendationId);
+        if (!recommendation) {
+            vscode.window.showInformationMessage('This recommendation no longer applies to the latest analysis.');
+            this.updateDashboard();
+            return;
+        }
+
+        const { command } = recommendation;
+        switch (command.kind) {
+            case 'showProblems':
+                await vscode.commands.executeCommand('workbench.panel.markers.view.focus');
                 break;
-            case 'common_pattern':
-                this.generateModernizationTimeline();
+            case 'applyFixes':
+                await vscode.commands.executeCommand(FIX_ALL_COMMAND, command.pattern);
+                this.updateDashboard();
                 break;
-            case 'baseline_adoption':
-                vscode.env.openExternal(vscode.Uri.parse('https://web.dev/baseline/'));
+            case 'showFiles':
+                await this.pickLocation(recommendation, command.pattern);
                 break;
         }
     }
 
+    /** Lists the recommendation's files, or the locations of `pattern` in them, and opens the chosen one. */
+    private async pickLocation(recommendation: Recommendation, pattern: string | undefined): Promise<void> {
+        const files = this.metricsTracker.getFileAnalyses().filter(file => recommendation.files.includes(file.fileName));
+        const items = files.flatMap(file => {
+            if (!pattern) {
+                return [{ label: file.fileName, description: `score ${file.baselineScore} · ${file.issuesFound} findings`, fileName: file.fileName, line: 1, column: 1 }];
+            }
+            return (file.patterns.find(candidate => candidate.pattern === pattern)?.locations || [])
+                .map(location => ({
+                    label: `${file.fileName}:${location.line}:${location.column}`,
+                    description: location.suggestion,
+                    fileName: file.fileName,
+                    line: location.line,
+                    column: location.column
+                }));
+        });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: recommendation.title,
+            placeHolder: 'Choose a location to open',
+            matchOnDescription: true
+        });
+        if (picked) {
+            await this.openFile(picked.fileName, picked.line, picked.column);
+        }
+    }
+
     private async exportMetrics(): Promise<void> {
         const metrics = this.metricsTracker.exportMetrics();
         const baselineStats = this.getBaselineFeatureStats();
@@ -542,6 +563,7 @@ export class BaselineWebviewProvider {
             baselineStatistics: baselineStats,
             recommendations,
             browserCompatibility: browserSupport,
+            workspaceBrowserCompatibility: this.getWorkspaceBrowserSupportStats(),
             supportedWebFeatures: supportedFeatures,
             summary: {
                 totalAnalyzed: JSON.parse(metrics).filesAnalyzed,
@@ -592,12 +614,17 @@ export class BaselineWebviewProvider {
 <body>
     <div class="container">
         <header>
-            <h1>🚀 Baseline Modernizer Dashboard</h1>
+            <div>
+                <h1>🚀 Baseline Modernizer Dashboard</h1>
+                <div id="targetInfo" class="target-info"></div>
+            </div>
             <div class="actions">
                 <button id="refreshBtn" class="btn btn-primary">🔄 Refresh</button>
                 <button id="timelineBtn" class="btn btn-secondary">📅 Timeline</button>
                 <button id="analyzeBtn" class="btn btn-info">🔍 Analyze</button>
                 <button id="exportBtn" class="btn btn-secondary">📊 Export</button>
+                <button id="exportSarifBtn" class="btn btn-secondary">📤 SARIF</button>
+                <button id="importBtn" class="btn btn-secondary">📥 Import</button>
                 <button id="resetBtn" class="btn btn-danger">🗑️ Reset</button>
             </div>
         </header>
@@ -632,6 +659,15 @@ export class BaselineWebviewProvider {
                     </div>
                 </div>
 
+                <div class="metric-card score-card">
+                    <div class="metric-icon">🧮</div>
+                    <div class="metric-content">
+                        <h3>Baseline Score</h3>
+                        <div class="metric-value" id="baselineScore">100</div>
+                        <div class="metric-change" id="scoreChange">Weighted by Baseline status and file size</div>
+                    </div>
+                </div>
+
                 <div class="metric-card progress-card">
                     <div class="metric-icon">📈</div>
                     <div class="metric-content">
@@ -661,6 +697,21 @@ export class BaselineWebviewProvider {
                 </div>
             </div>
 
+            <!-- Files by Issue Count -->
+            <div class="files-section">
+                <h2>📁 Files by Issue Count</h2>
+                <div id="filesContainer" class="files-table-container">
+                    <div class="files-placeholder">Analyze your project to see which files need the most work...</div>
+                </div>
+            </div>
+
+            <!-- Diff Scan: changed files only, kept out of the totals above -->
+            <div id="diffScanSection" class="files-section" hidden>
+                <h2>🔀 Diff Scan</h2>
+                <div id="diffScanSummary" class="diff-scan-summary"></div>
+                <div id="diffScanContainer" class="files-table-container"></div>
+            </div>
+
             <!-- Supported Web Features -->
             <div class="supported-features-section">
                 <h2>✨ Baseline Web Features Available</h2>
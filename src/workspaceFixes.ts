@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { BaselineService } from './baselineService';
+import { CodeAnalyzer, createPositionLookup, maskSource } from './codeAnalyzer';
+import { MetricsTracker } from './metricsTracker';
+import { ProjectScanner, ScannedFile } from './projectScanner';
+import { computeFixes, FIXABLE_PATTERNS, FixEdit } from './quickFixes';
+
+export const FIX_ALL_COMMAND = 'baseline-modernizer.fixAllInWorkspace';
+
+interface AlternativePickItem extends vscode.QuickPickItem {
+    pattern: string;
+}
+
+/** A fix added to the edit, at the location it modernizes. */
+interface LocationFix {
+    featureId: string;
+    line: number;
+    column: number;
+    edits: FixEdit[];
+}
+
+/** The fixes added to the edit for one file, and the text they were computed from. */
+interface FileFixes {
+    file: ScannedFile;
+    text: string;
+    fixes: LocationFix[];
+}
+
+/**
+ * Applies the quick fixes of one legacy pattern, such as `var` to let/const, across the
+ * workspace. Every fix goes into one WorkspaceEdit that needs confirmation, so the
+ * refactor preview opens and individual changes can be deselected. Each location that
+ * was modernized is recorded as a fix.
+ */
+export class WorkspaceFixer {
+    private codeAnalyzer: CodeAnalyzer;
+    private baselineService: BaselineService;
+    private projectScanner: ProjectScanner;
+    private metricsTracker: MetricsTracker;
+
+    constructor(codeAnalyzer: CodeAnalyzer, baselineService: BaselineService, projectScanner: ProjectScanner, metricsTracker: MetricsTracker) {
+        this.codeAnalyzer = codeAnalyzer;
+        this.baselineService = baselineService;
+        this.projectScanner = projectScanner;
+        this.metricsTracker = metricsTracker;
+    }
+
+    /** Fixes every location of `pattern`, asking which modern alternative to apply when none is given. */
+    async fixAll(pattern?: string): Promise<void> {
+        const chosen = pattern && FIXABLE_PATTERNS.includes(pattern) ? pattern : await this.pickPattern();
+        if (!chosen) return;
+
+        const alternative = this.baselineService.getModernAlternatives(chosen)[0];
+        const name = alternative ? `${chosen} → ${alternative.replacement}` : chosen;
+
+        const computed = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Finding fixes for ${name}...`,
+                cancellable: true
+            },
+            (progress, token) => this.computeEdit(chosen, progress, token)
+        );
+        if (!computed) return;
+
+        const { edit, files } = computed;
+        if (files.length === 0) {
+            vscode.window.showInformationMessage(`No uses of ${chosen} in the workspace can be fixed automatically.`);
+            return;
+        }
+
+        if (!await vscode.workspace.applyEdit(edit)) return;
+
+        // Changes deselected in the preview were not applied, so only the fixes found in the new text are recorded
+        let fixed = 0;
+        const changed: vscode.TextDocument[] = [];
+        for (const file of files) {
+            const document = await vscode.workspace.openTextDocument(file.file.uri);
+            const applied = findAppliedEdits(file.text, document.getText(), file.fixes.flatMap(fix => fix.edits));
+            const appliedFixes = file.fixes.filter(fix => fix.edits.every(change => applied.has(change)));
+            if (appliedFixes.length === 0) continue;
+
+            appliedFixes.forEach(fix => this.metricsTracker.recordFix(fix.featureId, file.file.relativePath, { line: fix.line, column: fix.column }));
+            fixed += appliedFixes.length;
+            this.metricsTracker.recordAnalysis(this.codeAnalyzer.analyze(document.getText(), file.file.relativePath, file.file.languageId));
+            changed.push(document);
+        }
+        if (fixed === 0) return;
+
+        const selection = await vscode.window.showInformationMessage(
+            `✅ Modernized ${fixed} uses of ${chosen} in ${changed.length} files. The changes are not saved yet.`,
+            'Save Changed Files'
+        );
+        if (selection === 'Save Changed Files') {
+            await Promise.all(changed.map(document => document.save()));
+        }
+    }
+
+    /** Lists the patterns that have quick fixes, most used in the workspace first. */
+    private async pickPattern(): Promise<string | undefined> {
+        const usage = this.metricsTracker.getMetrics().featureUsage;
+        const items: AlternativePickItem[] = FIXABLE_PATTERNS
+            .map(pattern => {
+                const alternative = this.baselineService.getModernAlternatives(pattern)[0];
+                return {
+                    label: alternative ? `${pattern} → ${alternative.replacement}` : pattern,
+                    description: usage[pattern] ? `${usage[pattern]} uses found by the last analysis` : undefined,
+                    detail: alternative?.description,
+                    pattern
+                };
+            })
+            .sort((a, b) => (usage[b.pattern] || 0) - (usage[a.pattern] || 0));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Fix All in Workspace',
+            placeHolder: 'Choose the modernization to apply everywhere it is safe'
+        });
+        return picked?.pattern;
+    }
+
+    /** Analyzes every source file and collects the fixes for the pattern's locations; undefined when cancelled. */
+    private async computeEdit(
+        pattern: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<{ edit: vscode.WorkspaceEdit; files: FileFixes[] } | undefined> {
+        const edit = new vscode.WorkspaceEdit();
+        const files: FileFixes[] = [];
+        const scanned = await this.projectScanner.findFiles(token);
+
+        for (const file of scanned) {
+            if (token.isCancellationRequested) return undefined;
+            progress.report({ increment: 100 / scanned.length, message: file.relativePath });
+
+            try {
+                const fixes = await this.computeFileFixes(file, pattern, edit);
+                if (fixes && fixes.fixes.length > 0) files.push(fixes);
+            } catch (error) {
+                console.warn(`Skipping ${file.relativePath}:`, error);
+            }
+        }
+
+        return { edit, files };
+    }
+
+    /**
+     * Adds the fixes for one file to `edit`, skipping any that would overlap a fix already
+     * added. Only locations the analysis marks fixable are included, so rewrites that would
+     * change behaviour, such as a var captured by closures in a loop, are left alone.
+     */
+    private async computeFileFixes(
+        file: ScannedFile,
+        pattern: string,
+        edit: vscode.WorkspaceEdit
+    ): Promise<FileFixes | undefined> {
+        // Open documents may have unsaved changes, and those are what the edit applies to
+        const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === file.uri.toString());
+        const text = document ? document.getText() : await this.projectScanner.readFile(file.uri);
+
+        // Suppressed findings are left out, so baseline-ignore comments are respected
+        const result = this.codeAnalyzer.analyze(text, file.relativePath, file.languageId);
+        const found = result.patterns.find(candidate => candidate.pattern === pattern);
+        if (!found) return undefined;
+
+        const lineStarts = [0, ...Array.from(text.matchAll(/\n/g), match => match.index! + 1)];
+        const positionOf = createPositionLookup(text);
+        const toPosition = (offset: number) => {
+            const { line, column } = positionOf(offset);
+            return new vscode.Position(line - 1, column - 1);
+        };
+
+        const masked = maskSource(text, file.languageId);
+        const accepted: FixEdit[] = [];
+        const fixes: LocationFix[] = [];
+
+        found.locations.filter(location => location.fixable).forEach(location => {
+            const offset = lineStarts[location.line - 1] + location.column - 1;
+            const fix = computeFixes(text, file.languageId, pattern, offset, masked)[0];
+            if (!fix || fix.edits.some(change => accepted.some(other => change.start < other.end && other.start < change.end))) return;
+
+            accepted.push(...fix.edits);
+            fixes.push({ featureId: fix.featureId, line: location.line, column: location.column, edits: fix.edits });
+            fix.edits.forEach(change => edit.replace(
+                file.uri,
+                new vscode.Range(toPosition(change.start), toPosition(change.end)),
+                change.newText,
+                { needsConfirmation: true, label: fix.title, description: `${file.relativePath}:${location.line}` }
+            ));
+        });
+
+        return { file, text, fixes };
+    }
+}
+
+/**
+ * Which of the non-overlapping `edits` to `before` are present in `after`, found by
+ * walking the unchanged text between them. Each edit must be followed by the same
+ * unchanged text whether it was applied or not, so the two cases cannot be confused.
+ * Returns no edits when the text changed in any other way.
+ */
+function findAppliedEdits(before: string, after: string, edits: FixEdit[]): Set<FixEdit> {
+    const sorted = [...edits].sort((a, b) => a.start - b.start);
+    const applied = new Set<FixEdit>();
+    let position = 0;
+    let previousEnd = 0;
+
+    for (let i = 0; i < sorted.length; i++) {
+        const change = sorted[i];
+        const unchanged = before.slice(previousEnd, change.start);
+        if (!after.startsWith(unchanged, position)) return new Set();
+        position += unchanged.length;
+
+        const following = before.slice(change.end, sorted[i + 1]?.start ?? before.length);
+        const original = before.slice(change.start, change.end);
+        if (after.startsWith(change.newText + following, position)) {
+            applied.add(change);
+            position += change.newText.length;
+        } else if (after.startsWith(original + following, position)) {
+            position += original.length;
+        } else {
+            return new Set();
+        }
+        previousEnd = change.end;
+    }
+
+    return applied;
+}
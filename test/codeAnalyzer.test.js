@@ -0,0 +1,52 @@
+// Runs against the compiled extension in out/, see `npm test`
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { BaselineService } = require('../out/baselineService');
+const { CodeAnalyzer } = require('../out/codeAnalyzer');
+const { resolvePolicy } = require('../out/policy');
+
+const baselineService = new BaselineService();
+
+const SCRIPT = 'export {};\nvar x = 1;\nnew XMLHttpRequest();\nconst f = function () { return x; };\n';
+const STYLE = '.a { float: left; }\n.b { display: grid; }\n';
+
+const patternsOf = (analyzer, text, fileName, languageId) =>
+    analyzer.analyze(text, fileName, languageId).patterns.map(pattern => pattern.pattern).sort();
+
+const withPolicy = policy => new CodeAnalyzer(baselineService, fileName => resolvePolicy(policy, fileName, 'low'));
+
+describe('CodeAnalyzer.analyze', () => {
+    it('reports legacy patterns without a policy', () => {
+        const analyzer = new CodeAnalyzer(baselineService);
+        assert.deepEqual(patternsOf(analyzer, SCRIPT, 'a.js', 'javascript'), ['XMLHttpRequest', 'function', 'var']);
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'a.css', 'css'), ['float']);
+    });
+
+    it('leaves out widely available features the policy does not mention', () => {
+        assert.deepEqual(patternsOf(withPolicy({ deny: ['dialog'] }), STYLE, 'a.css', 'css'), ['float']);
+    });
+
+    it('reports widely available features the policy denies or sets a rule for', () => {
+        assert.deepEqual(patternsOf(withPolicy({ deny: ['grid'] }), STYLE, 'a.css', 'css'), ['float', 'grid']);
+        assert.deepEqual(patternsOf(withPolicy({ rules: { grid: 'warning' } }), STYLE, 'a.css', 'css'), ['float', 'grid']);
+        assert.deepEqual(patternsOf(withPolicy({ rules: { grid: 'off' } }), STYLE, 'a.css', 'css'), ['float']);
+    });
+
+    it('applies the policy of each file', () => {
+        const analyzer = withPolicy({ overrides: [{ files: ['legacy/**'], deny: ['grid'] }] });
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'src/a.css', 'css'), ['float']);
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'legacy/a.css', 'css'), ['float', 'grid']);
+    });
+
+    it('leaves out widely available features that an override allows after the top level denies them', () => {
+        const analyzer = withPolicy({ deny: ['grid'], overrides: [{ files: ['vendor/**'], allow: ['grid'] }] });
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'src/a.css', 'css'), ['float', 'grid']);
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'vendor/a.css', 'css'), ['float']);
+    });
+
+    it('keeps legacy patterns that the policy allows, for the policy severity to turn off', () => {
+        const analyzer = withPolicy({ allow: ['var', 'float'] });
+        assert.deepEqual(patternsOf(analyzer, SCRIPT, 'a.js', 'javascript'), ['XMLHttpRequest', 'function', 'var']);
+        assert.deepEqual(patternsOf(analyzer, STYLE, 'a.css', 'css'), ['float']);
+    });
+});
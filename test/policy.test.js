@@ -0,0 +1,65 @@
+// Runs against the compiled extension in out/, see `npm test`
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { getPolicySeverity, resolvePolicy } = require('../out/policy');
+
+describe('resolvePolicy', () => {
+    it('uses the default target without a policy', () => {
+        const policy = resolvePolicy(undefined, 'src/app.js', 'low');
+        assert.equal(policy.target, 'low');
+        assert.equal(policy.allow.size, 0);
+        assert.equal(policy.deny.size, 0);
+        assert.deepEqual(policy.rules, {});
+    });
+
+    it('applies the overrides whose globs match the file, in order', () => {
+        const policy = {
+            target: 'high',
+            deny: ['dialog'],
+            rules: { var: 'warning' },
+            overrides: [
+                { files: ['legacy/**'], target: 'false', allow: ['dialog'], rules: { var: 'off' } },
+                { files: ['*.test.js'], deny: ['dialog'] }
+            ]
+        };
+
+        const app = resolvePolicy(policy, 'src/app.js', 'low');
+        assert.equal(app.target, 'high');
+        assert.ok(app.deny.has('dialog'));
+        assert.equal(app.rules.var, 'warning');
+
+        const legacy = resolvePolicy(policy, 'legacy/old.js', 'low');
+        assert.equal(legacy.target, 'false');
+        assert.ok(legacy.allow.has('dialog'));
+        assert.ok(!legacy.deny.has('dialog'));
+        assert.equal(legacy.rules.var, 'off');
+
+        // Globs without a slash match at any depth, and a later override wins
+        const legacyTest = resolvePolicy(policy, 'legacy/old.test.js', 'low');
+        assert.ok(legacyTest.deny.has('dialog'));
+        assert.ok(!legacyTest.allow.has('dialog'));
+    });
+
+    it('applies only the top-level settings without a path', () => {
+        const policy = { allow: ['grid'], overrides: [{ files: ['**'], deny: ['grid'] }] };
+        assert.ok(resolvePolicy(policy, undefined, 'low').allow.has('grid'));
+    });
+});
+
+describe('getPolicySeverity', () => {
+    const policy = resolvePolicy({ allow: ['var', 'grid'], deny: ['dialog', 'float'], rules: { var: 'error', float: 'hint' } }, 'a.js', 'low');
+
+    it('prefers a rule over allow and deny', () => {
+        assert.equal(getPolicySeverity(policy, 'var'), 'error');
+        assert.equal(getPolicySeverity(policy, 'float'), 'hint');
+    });
+
+    it('turns allowed patterns off and makes denied ones errors', () => {
+        assert.equal(getPolicySeverity(policy, 'grid'), 'off');
+        assert.equal(getPolicySeverity(policy, 'dialog'), 'error');
+    });
+
+    it('is undefined for patterns the policy does not mention', () => {
+        assert.equal(getPolicySeverity(policy, 'fetch'), undefined);
+    });
+});
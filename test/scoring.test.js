@@ -0,0 +1,100 @@
+// Runs against the compiled extension in out/, see `npm test`
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { aggregateScores, calculateScore, getUsageWeight } = require('../out/scoring');
+
+const DAY = 24 * 60 * 60 * 1000;
+const LOW_DATE = '2024-01-01';
+
+// Just the lookups scoring uses, with one feature of each Baseline status
+const baselineService = {
+    isLegacyPattern: pattern => ['var', 'XMLHttpRequest', 'document.write'].includes(pattern),
+    getFeatureInfo: id => ({
+        grid: { id, status: { baseline: 'high', baseline_low_date: '2020-07-28' } },
+        dialog: { id, status: { baseline: 'low', baseline_low_date: LOW_DATE } },
+        'view-transitions': { id, status: { baseline: false } }
+    })[id]
+};
+
+const monthsAfterLowDate = months => new Date(new Date(LOW_DATE).getTime() + months * 30.44 * DAY);
+
+describe('getUsageWeight', () => {
+    it('costs nothing for widely available features', () => {
+        assert.deepEqual(getUsageWeight('grid', baselineService), { weight: 0, reason: 'widely available' });
+    });
+
+    it('decays newly available features from 2 to 1 over 30 months', () => {
+        assert.equal(getUsageWeight('dialog', baselineService, monthsAfterLowDate(0)).weight, 2);
+        assert.equal(getUsageWeight('dialog', baselineService, monthsAfterLowDate(15)).weight, 1.5);
+        assert.equal(getUsageWeight('dialog', baselineService, monthsAfterLowDate(30)).weight, 1);
+        assert.equal(getUsageWeight('dialog', baselineService, monthsAfterLowDate(48)).weight, 1);
+        assert.equal(getUsageWeight('dialog', baselineService, monthsAfterLowDate(0)).reason, `newly available since ${LOW_DATE}`);
+    });
+
+    it('costs 3 for features with limited availability', () => {
+        assert.deepEqual(getUsageWeight('view-transitions', baselineService), { weight: 3, reason: 'limited availability' });
+    });
+
+    it('uses the severity of legacy patterns, and 1 for those without one', () => {
+        assert.equal(getUsageWeight('var', baselineService).weight, 1);
+        assert.equal(getUsageWeight('XMLHttpRequest', baselineService).weight, 2);
+        assert.deepEqual(getUsageWeight('document.write', baselineService), { weight: 1, reason: 'legacy pattern, severity 1' });
+    });
+
+    it('costs 1 for unknown patterns', () => {
+        assert.deepEqual(getUsageWeight('no-such-feature', baselineService), { weight: 1, reason: 'unknown pattern' });
+    });
+});
+
+describe('calculateScore', () => {
+    it('scores 100 when nothing has a weight', () => {
+        assert.deepEqual(calculateScore([], 200, baselineService), { score: 100, breakdown: [] });
+        assert.deepEqual(calculateScore([{ pattern: 'grid', count: 40 }], 200, baselineService), { score: 100, breakdown: [] });
+    });
+
+    it('halves the score at 5 weighted usages per 100 lines', () => {
+        assert.equal(calculateScore([{ pattern: 'var', count: 5 }], 100, baselineService).score, 50);
+        assert.equal(calculateScore([{ pattern: 'var', count: 10 }], 100, baselineService).score, 25);
+        assert.equal(calculateScore([{ pattern: 'XMLHttpRequest', count: 5 }], 200, baselineService).score, 50);
+    });
+
+    it('scores files shorter than 50 lines as if they had 50', () => {
+        const patterns = [{ pattern: 'var', count: 1 }];
+        assert.equal(calculateScore(patterns, 5, baselineService).score, calculateScore(patterns, 50, baselineService).score);
+        assert.ok(calculateScore(patterns, 100, baselineService).score > calculateScore(patterns, 50, baselineService).score);
+    });
+
+    it('splits the lost points between patterns by their weight', () => {
+        const now = monthsAfterLowDate(0);
+        const { score, breakdown } = calculateScore([
+            { pattern: 'var', count: 3 },
+            { pattern: 'view-transitions', count: 2 },
+            { pattern: 'dialog', count: 1 },
+            { pattern: 'grid', count: 4 },
+            { pattern: 'var', count: 1 }
+        ], 120, baselineService, now);
+
+        assert.deepEqual(breakdown.map(cost => [cost.pattern, cost.count]), [['view-transitions', 2], ['var', 4], ['dialog', 1]]);
+        const points = breakdown.reduce((total, cost) => total + cost.points, 0);
+        assert.ok(Math.abs(points - (100 - score)) <= 0.5 + 0.05 * breakdown.length, `${points} points for a score of ${score}`);
+    });
+});
+
+describe('aggregateScores', () => {
+    it('scores 100 without files', () => {
+        assert.deepEqual(aggregateScores([], baselineService), { score: 100, breakdown: [] });
+    });
+
+    it('weighs files by their line count', () => {
+        const small = { patterns: [{ pattern: 'var', count: 5 }], lineCount: 100 };
+        const large = { patterns: [], lineCount: 900 };
+        assert.equal(aggregateScores([small], baselineService).score, 50);
+        assert.equal(aggregateScores([small, large], baselineService).score, calculateScore(small.patterns, 1000, baselineService).score);
+        assert.ok(aggregateScores([small, large], baselineService).score > 90);
+    });
+
+    it('counts each file with at least 50 lines', () => {
+        const tiny = { patterns: [{ pattern: 'var', count: 1 }], lineCount: 2 };
+        assert.equal(aggregateScores([tiny, tiny], baselineService).score, calculateScore([{ pattern: 'var', count: 2 }], 100, baselineService).score);
+    });
+});
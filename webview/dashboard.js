@@ -5,13 +5,18 @@
     const vscode = acquireVsCodeApi();
     let currentData = null;
     let activeFeatureCategory = 'all';
+    let fileSort = { key: 'issuesFound', descending: true };
+    let sortedFiles = [];
 
     // DOM elements
     const elements = {
+        targetInfo: document.getElementById('targetInfo'),
         filesAnalyzed: document.getElementById('filesAnalyzed'),
         issuesFound: document.getElementById('issuesFound'),
         fixesApplied: document.getElementById('fixesApplied'),
         progress: document.getElementById('progress'),
+        baselineScore: document.getElementById('baselineScore'),
+        scoreChange: document.getElementById('scoreChange'),
         progressFill: document.getElementById('progressFill'),
         filesChange: document.getElementById('filesChange'),
         issuesChange: document.getElementById('issuesChange'),
@@ -22,10 +27,16 @@
         timelineContainer: document.getElementById('timelineContainer'),
         recommendationsContainer: document.getElementById('recommendationsContainer'),
         baselineStatsContainer: document.getElementById('baselineStatsContainer'),
+        filesContainer: document.getElementById('filesContainer'),
+        diffScanSection: document.getElementById('diffScanSection'),
+        diffScanSummary: document.getElementById('diffScanSummary'),
+        diffScanContainer: document.getElementById('diffScanContainer'),
         refreshBtn: document.getElementById('refreshBtn'),
         timelineBtn: document.getElementById('timelineBtn'),
         analyzeBtn: document.getElementById('analyzeBtn'),
         exportBtn: document.getElementById('exportBtn'),
+        exportSarifBtn: document.getElementById('exportSarifBtn'),
+        importBtn: document.getElementById('importBtn'),
         resetBtn: document.getElementById('resetBtn')
     };
 
@@ -37,7 +48,7 @@
         if (elements.refreshBtn) {
             elements.refreshBtn.addEventListener('click', () => {
                 showLoading();
-                vscode.postMessage({ command: 'loadSampleData' });
+                vscode.postMessage({ command: 'refresh' });
             });
         }
 
@@ -59,6 +70,18 @@
             });
         }
 
+        if (elements.exportSarifBtn) {
+            elements.exportSarifBtn.addEventListener('click', () => {
+                vscode.postMessage({ command: 'exportSarif' });
+            });
+        }
+
+        if (elements.importBtn) {
+            elements.importBtn.addEventListener('click', () => {
+                vscode.postMessage({ command: 'importMetrics' });
+            });
+        }
+
         if (elements.resetBtn) {
             elements.resetBtn.addEventListener('click', () => {
                 if (confirm('Reset all metrics? This will clear all progress data.')) {
@@ -67,6 +90,52 @@
             });
         }
 
+        // Files table: sort by header, open a file (or one of its patterns) at the issue location
+        if (elements.filesContainer) {
+            elements.filesContainer.addEventListener('click', (e) => {
+                const header = e.target.closest('th[data-sort]');
+                if (header) {
+                    const key = header.dataset.sort;
+                    fileSort = { key, descending: fileSort.key === key ? !fileSort.descending : key !== 'fileName' };
+                    updateFilesTable(currentData ? currentData.files || [] : []);
+                    return;
+                }
+
+                const row = e.target.closest('tr[data-index]');
+                if (!row) return;
+
+                const file = sortedFiles[Number(row.dataset.index)];
+                const chip = e.target.closest('[data-pattern-index]');
+                const pattern = file.patterns[chip ? Number(chip.dataset.patternIndex) : 0];
+                const location = pattern && pattern.location;
+                vscode.postMessage({
+                    command: 'openFile',
+                    fileName: file.fileName,
+                    line: location ? location.line : 1,
+                    column: location ? location.column : 1
+                });
+            });
+        }
+
+        // Diff scan table: open a file (or one of its patterns) at the issue location
+        if (elements.diffScanContainer) {
+            elements.diffScanContainer.addEventListener('click', (e) => {
+                const row = e.target.closest('tr[data-index]');
+                if (!row || !currentData || !currentData.diffScan) return;
+
+                const file = currentData.diffScan.files[Number(row.dataset.index)];
+                const chip = e.target.closest('[data-pattern-index]');
+                const pattern = file.patterns[chip ? Number(chip.dataset.patternIndex) : 0];
+                const location = pattern && pattern.location;
+                vscode.postMessage({
+                    command: 'openFile',
+                    fileName: file.fileName,
+                    line: location ? location.line : 1,
+                    column: location ? location.column : 1
+                });
+            });
+        }
+
         // Feature category tabs
         document.querySelectorAll('.tab-button').forEach(button => {
             button.addEventListener('click', (e) => {
@@ -121,7 +190,7 @@
         // Update metric descriptions
         if (elements.filesChange) {
             elements.filesChange.textContent = metrics.filesAnalyzed > 0 
-                ? `+${metrics.filesAnalyzed} analyzed this session`
+                ? `${metrics.filesAnalyzed} files tracked in this workspace`
                 : 'Start analysis to see data';
         }
 
@@ -133,14 +202,15 @@
         }
 
         if (elements.fixesChange) {
-            if (metrics.issuesFound > 0) {
-                const rate = Math.round((metrics.fixesApplied / metrics.issuesFound) * 100);
-                elements.fixesChange.textContent = `${rate}% completion rate`;
+            if (metrics.issuesFound > 0 || metrics.fixesApplied > 0) {
+                elements.fixesChange.textContent = `${metrics.modernizationProgress}% completion rate`;
             } else {
                 elements.fixesChange.textContent = 'No fixes needed yet';
             }
         }
 
+        updateProjectScore(data.projectScore);
+
         // Animate progress bar
         if (elements.progressFill) {
             setTimeout(() => {
@@ -149,14 +219,49 @@
         }
 
         // Update all dashboard sections
+        updateTargetInfo(data.target);
         updateMostUsedFeaturesChart(data.mostUsedFeatures || []);
-        updateBrowserCompatibilityChart(data.browserSupport || {});
+        updateBrowserCompatibilityChart(data.browserSupport || {}, data.workspaceBrowserSupport || {});
+        updateFilesTable(data.files || []);
+        updateDiffScan(data.diffScan);
         updateSupportedWebFeatures(data.supportedFeatures || []);
         updateModernizationTimeline(data.timeline || []);
         updateSmartRecommendations(data.recommendations || []);
         updateBaselineStatistics(data.baselineFeatures || {});
     }
 
+    function updateProjectScore(projectScore) {
+        if (!projectScore) return;
+
+        updateMetricWithAnimation(elements.baselineScore, projectScore.score);
+
+        if (elements.scoreChange) {
+            const costs = projectScore.breakdown;
+            elements.scoreChange.textContent = costs.length > 0
+                ? 'Costs: ' + costs.slice(0, 3).map(cost => `${cost.pattern} −${cost.points}`).join(', ')
+                : 'No patterns cost points';
+            // The full breakdown explains each cost
+            elements.scoreChange.title = costs
+                .map(cost => `${cost.pattern}: ${cost.count} × ${cost.weight} (${cost.reason}) = −${cost.points} points`)
+                .join('\n');
+        }
+    }
+
+    function updateTargetInfo(target) {
+        if (!elements.targetInfo || !target) return;
+
+        const browsers = target.summary
+            ? `${target.summary} (from ${target.source})`
+            : 'latest browser versions (no browserslist config)';
+        const ignored = target.ignored.length > 0
+            ? ` · ignored: ${target.ignored.join(', ')}`
+            : '';
+
+        const policy = target.policy ? ` (from ${target.policy})` : '';
+
+        elements.targetInfo.textContent = `🎯 Baseline ${target.baseline}${policy} · ${browsers}${ignored}`;
+    }
+
     function updateMetricWithAnimation(element, value) {
         if (!element) return;
 
@@ -197,6 +302,7 @@
                     <div class="empty-title">No Legacy Patterns Detected</div>
                     <div class="empty-description">Run "Analyze File" or "Analyze Project" to identify modernization opportunities</div>
                     <button class="empty-action" onclick="analyzeProject()">Analyze Project</button>
+                    <button class="empty-action" onclick="loadSampleData()">Load Sample Data</button>
                 </div>
             `;
             return;
@@ -237,7 +343,7 @@
         elements.featuresChart.innerHTML = chartHTML;
     }
 
-    function updateBrowserCompatibilityChart(browserSupport) {
+    function updateBrowserCompatibilityChart(browserSupport, workspaceBrowserSupport) {
         if (!elements.browserChart) return;
 
         if (Object.keys(browserSupport).length === 0) {
@@ -253,10 +359,14 @@
 
         const browsers = [
             { key: 'chrome', name: 'Chrome', icon: '🌐', color: '#4285f4' },
+            { key: 'chrome_android', name: 'Chrome Android', icon: '🤖', color: '#34a853' },
+            { key: 'edge', name: 'Edge', icon: '🔷', color: '#0078d4' },
             { key: 'firefox', name: 'Firefox', icon: '🦊', color: '#ff7139' },
+            { key: 'firefox_android', name: 'Firefox Android', icon: '📱', color: '#e66000' },
             { key: 'safari', name: 'Safari', icon: '🧭', color: '#006cff' },
-            { key: 'edge', name: 'Edge', icon: '🔷', color: '#0078d4' }
+            { key: 'safari_ios', name: 'Safari iOS', icon: '🍎', color: '#5ac8fa' }
         ];
+        const workspaceSupport = workspaceBrowserSupport || {};
 
         const chartHTML = `
             <div class="browser-compatibility-grid">
@@ -264,6 +374,7 @@
                     const stats = browserSupport[browser.key] || { percentage: 0, supported: 0, total: 0 };
                     const percentage = stats.percentage || 0;
                     const status = percentage >= 80 ? 'excellent' : percentage >= 60 ? 'good' : 'limited';
+                    const workspace = workspaceSupport[browser.key];
 
                     return `
                         <div class="browser-item ${status}">
@@ -275,8 +386,13 @@
                                 ${percentage}%
                             </div>
                             <div class="browser-details">
-                                ${stats.supported}/${stats.total} features
+                                ${stats.supported}/${stats.total} features since v${escapeHtml(stats.minimumVersion || '?')}
                             </div>
+                            ${workspace && workspace.total > 0 ? `
+                                <div class="browser-workspace" title="Features detected in your workspace">
+                                    Your code: ${workspace.percentage}% of ${workspace.total} used features
+                                </div>
+                            ` : ''}
                             <div class="browser-progress-bar">
                                 <div class="browser-progress-fill" style="width: ${percentage}%; background-color: ${browser.color}"></div>
                             </div>
@@ -296,6 +412,115 @@
         elements.browserChart.innerHTML = chartHTML;
     }
 
+    function updateFilesTable(files) {
+        if (!elements.filesContainer) return;
+
+        if (files.length === 0) {
+            elements.filesContainer.innerHTML = `
+                <div class="empty-state">
+                    <div class="empty-icon">📁</div>
+                    <div class="empty-title">No Files With Issues</div>
+                    <div class="empty-description">Files with legacy patterns appear here after "Analyze File" or "Analyze Project"</div>
+                </div>
+            `;
+            return;
+        }
+
+        const direction = fileSort.descending ? -1 : 1;
+        sortedFiles = [...files].sort((a, b) => {
+            const left = a[fileSort.key];
+            const right = b[fileSort.key];
+            const order = typeof left === 'string' ? left.localeCompare(right) : left - right;
+            return order * direction;
+        });
+
+        const columns = [
+            { key: 'fileName', label: 'File' },
+            { key: 'language', label: 'Language' },
+            { key: 'issuesFound', label: 'Issues' },
+            { key: 'baselineScore', label: 'Score' }
+        ];
+        const arrow = fileSort.descending ? ' ▼' : ' ▲';
+
+        elements.filesContainer.innerHTML = `
+            <table class="files-table">
+                <thead>
+                    <tr>
+                        ${columns.map(column => `
+                            <th data-sort="${column.key}" class="${fileSort.key === column.key ? 'sorted' : ''}">
+                                ${column.label}${fileSort.key === column.key ? arrow : ''}
+                            </th>
+                        `).join('')}
+                        <th>Patterns</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${sortedFiles.map((file, index) => `
+                        <tr data-index="${index}" title="Open ${escapeHtml(file.fileName)} at its first issue">
+                            <td class="file-name">${escapeHtml(file.fileName)}</td>
+                            <td>${escapeHtml(file.language)}</td>
+                            <td class="file-issues">${file.issuesFound}</td>
+                            <td>${file.baselineScore}</td>
+                            <td class="file-patterns">
+                                ${file.patterns.map((pattern, patternIndex) => `
+                                    <span class="file-pattern" data-pattern-index="${patternIndex}" title="Go to the first ${escapeHtml(pattern.pattern)}">
+                                        ${escapeHtml(pattern.pattern)} × ${pattern.count}
+                                    </span>
+                                `).join('')}
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    }
+
+    function updateDiffScan(scan) {
+        if (!elements.diffScanSection) return;
+
+        elements.diffScanSection.hidden = !scan;
+        if (!scan) return;
+
+        const scope = scan.changedLinesOnly ? 'changed lines' : 'changed files';
+        elements.diffScanSummary.textContent =
+            `${scan.label} against ${scan.baseRef} (${scope}) · ${scan.issuesFound} issues in ${scan.filesScanned} changed files · ` +
+            `${new Date(scan.scannedAt).toLocaleString()} · not included in the project totals`;
+
+        if (scan.files.length === 0) {
+            elements.diffScanContainer.innerHTML = `
+                <div class="empty-state">
+                    <div class="empty-icon">🎉</div>
+                    <div class="empty-title">No Issues in the Changes</div>
+                    <div class="empty-description">The ${scope} introduce no legacy patterns or features below the target</div>
+                </div>
+            `;
+            return;
+        }
+
+        elements.diffScanContainer.innerHTML = `
+            <table class="files-table">
+                <thead>
+                    <tr><th>File</th><th>Issues</th><th>Patterns</th></tr>
+                </thead>
+                <tbody>
+                    ${scan.files.map((file, index) => `
+                        <tr data-index="${index}" title="Open ${escapeHtml(file.fileName)} at its first issue">
+                            <td class="file-name">${escapeHtml(file.fileName)}</td>
+                            <td class="file-issues">${file.issuesFound}</td>
+                            <td class="file-patterns">
+                                ${file.patterns.map((pattern, patternIndex) => `
+                                    <span class="file-pattern" data-pattern-index="${patternIndex}" title="Go to the first ${escapeHtml(pattern.pattern)}">
+                                        ${escapeHtml(pattern.pattern)} × ${pattern.count}
+                                    </span>
+                                `).join('')}
+                            </td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    }
+
     function updateSupportedWebFeatures(supportedFeatures) {
         if (!elements.supportedFeaturesContainer) return;
 
@@ -324,12 +549,12 @@
         const featuresHTML = `
             <div class="features-grid">
                 ${features.map(feature => `
-                    <div class="supported-feature-card ${feature.baseline}" onclick="exploreFeature('${feature.id}')">
+                    <div class="supported-feature-card ${feature.baseline}" onclick="exploreFeature('${escapeHtml(feature.id)}')">
                         <div class="feature-card-header">
-                            <h4 class="feature-title">${feature.name}</h4>
+                            <h4 class="feature-title">${escapeHtml(feature.name)}</h4>
                             <span class="baseline-badge ${feature.baseline}">${getBaselineLabel(feature.baseline)}</span>
                         </div>
-                        <p class="feature-description">${feature.description}</p>
+                        <p class="feature-description">${escapeHtml(feature.description)}</p>
                         <div class="feature-metadata">
                             <div class="feature-category">${feature.category}</div>
                             ${feature.since ? `<div class="feature-since">Since ${feature.since}</div>` : ''}
@@ -428,27 +653,27 @@
 
         const recommendationsHTML = recommendations.map(rec => {
             const typeEmoji = getRecommendationEmoji(rec.type);
-            const impactClass = (rec.impact || 'medium').toLowerCase();
+            const impactClass = rec.impact.toLowerCase();
+            const files = rec.files.length === 1 ? rec.files[0] : `${rec.files.length} files`;
 
             return `
                 <div class="recommendation-item ${rec.type}">
                     <div class="recommendation-header">
-                        <h3 class="recommendation-title">${typeEmoji} ${rec.title}</h3>
+                        <h3 class="recommendation-title">${typeEmoji} ${escapeHtml(rec.title)}</h3>
                         <div class="recommendation-metadata">
                             <span class="recommendation-impact ${impactClass}">
-                                ${rec.impact || 'Medium'} Impact
+                                ${rec.impact} Impact
                             </span>
                             <span class="recommendation-type">${rec.type}</span>
                         </div>
                     </div>
-                    <p class="recommendation-description">${rec.description}</p>
-                    ${rec.actionable ? `
-                        <button class="recommendation-action" onclick="applyRecommendation('${rec.id}')">
-                            ${rec.action}
-                        </button>
-                    ` : `
-                        <div class="recommendation-info">${rec.action}</div>
-                    `}
+                    <p class="recommendation-description">${escapeHtml(rec.description)}</p>
+                    <div class="recommendation-info" title="${escapeHtml(rec.files.join('\n'))}">
+                        ⏱️ ${escapeHtml(rec.effort)} · 📁 ${escapeHtml(files)}
+                    </div>
+                    <button class="recommendation-action" onclick="applyRecommendation('${escapeHtml(rec.id)}')">
+                        ${escapeHtml(rec.action)}
+                    </button>
                 </div>
             `;
         }).join('');
@@ -570,10 +795,11 @@
         }
     }
 
+    // Also escapes quotes, since the result goes into attribute values as well as text
     function escapeHtml(text) {
         const div = document.createElement('div');
         div.textContent = text;
-        return div.innerHTML;
+        return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
     }
 
     // Global functions for button clicks
@@ -593,9 +819,14 @@
         vscode.postMessage({ command: 'analyzeRecommendations' });
     };
 
+    window.loadSampleData = function() {
+        showLoading();
+        vscode.postMessage({ command: 'loadSampleData' });
+    };
+
     // Initialize dashboard
     showLoading();
-    vscode.postMessage({ command: 'loadSampleData' });
+    vscode.postMessage({ command: 'refresh' });
 
     // Auto-refresh every 60 seconds
     setInterval(() => {